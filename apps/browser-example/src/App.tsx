@@ -20,7 +20,13 @@ export function App() {
   const [routes] = useState({
     WebRTC: {
       label: "WebRTC Example",
-      page: (props: PageProps) => <WebRTCExample {...props} />,
+      page: (props: PageProps) => <WebRTCExample key="WebRTC" {...props} />,
+    },
+    WebSocket: {
+      label: "WebSocket Example",
+      page: (props: PageProps) => (
+        <WebRTCExample key="WebSocket" {...props} transport="WebSocket" />
+      ),
     },
     "official-ws": {
       label: "Official SDK WebSocket Example",
@@ -5,27 +5,37 @@ import type {
   RealtimeConversationItemContent,
 } from "@tsorta/browser/openai"
 import { DefinedRole, simplifyItem } from "./simpleConversation"
+import { BootstrapIcon } from "./BootstrapIcon"
 
 const log = console
 
 export interface ConversationProps {
   conversation: RealtimeConversationItem[]
+  // gets the recorded audio of a user's message, if the SDK supports it
+  getItemAudio?: (itemId: string) => Promise<Blob | null>
 }
 
 export const ConversationView = ({
   conversation,
+  getItemAudio,
 }: ConversationProps): ReactNode => {
   return (
     <div className="conversation d-flex flex-column overflow-y-scroll flex-grow-1">
       {conversation
         .filter((item) => item.role !== "system")
-        .map((item, index, arr) => (
-          <ConversationItem
-            key={item.id}
-            item={item}
-            doScrollIntoView={index === arr.length - 1}
-          />
-        ))}
+        .map((item, index, arr) =>
+          item.type === "function_call" ||
+          item.type === "function_call_output" ? (
+            <FunctionCallItem key={item.id} item={item} />
+          ) : (
+            <ConversationItem
+              key={item.id}
+              item={item}
+              doScrollIntoView={index === arr.length - 1}
+              getItemAudio={getItemAudio}
+            />
+          )
+        )}
     </div>
   )
 }
@@ -49,11 +59,13 @@ const RoleLabelMap: Record<DefinedRole, string> = {
 interface ConversationItemProps {
   item: RealtimeConversationItem
   doScrollIntoView: boolean
+  getItemAudio?: (itemId: string) => Promise<Blob | null>
 }
 
 const ConversationItem = ({
   item,
   doScrollIntoView,
+  getItemAudio,
 }: ConversationItemProps): ReactNode => {
   const simpleItem = simplifyItem(item)
   const { id, role, content } = simpleItem
@@ -85,6 +97,9 @@ const ConversationItem = ({
     >
       <div className="attribution mx-8 mb-1 mt-6 text-xs text-gray-500 text-muted">
         <small>{RoleLabelMap[role]}</small>
+        {role === "user" && id && getItemAudio && (
+          <ReplayButton itemId={id} getItemAudio={getItemAudio} />
+        )}
       </div>
 
       <div
@@ -106,6 +121,61 @@ const ConversationItem = ({
   )
 }
 
+/**
+ * Plays the user's recorded audio for a message.
+ */
+const ReplayButton = ({
+  itemId,
+  getItemAudio,
+}: {
+  itemId: string
+  getItemAudio: (itemId: string) => Promise<Blob | null>
+}): ReactNode => {
+  const replay = async () => {
+    const audio = await getItemAudio(itemId)
+    if (!audio) {
+      log.warn(`No audio recorded for item ${itemId}`)
+      return
+    }
+    const url = URL.createObjectURL(audio)
+    const player = new Audio(url)
+    player.onended = () => URL.revokeObjectURL(url)
+    await player.play()
+  }
+
+  return (
+    <button
+      type="button"
+      className="btn btn-sm btn-link p-0 ms-2 align-baseline"
+      title="Replay"
+      onClick={() => {
+        replay().catch((err) => log.error("Failed to replay audio", err))
+      }}
+    >
+      <BootstrapIcon name="play-circle" />
+    </button>
+  )
+}
+
+/**
+ * Renders the function calls made by the model and their output (these items have no role or content).
+ */
+const FunctionCallItem = ({
+  item,
+}: {
+  item: RealtimeConversationItem
+}): ReactNode => {
+  return (
+    <div className="function-call-item align-self-center text-muted mb-3">
+      <small>
+        {item.type === "function_call"
+          ? `Called ${item.name}(${item.arguments ?? ""})`
+          : `Function output: ${item.output ?? ""}`}
+      </small>
+    </div>
+  )
+}
+
 interface ConversationItemContentProps {
   content: RealtimeConversationItemContent
   doScrollIntoView: boolean
@@ -114,14 +184,11 @@ interface ConversationItemContentProps {
 const ConversationItemContent = ({
   content,
 }: ConversationItemContentProps): ReactNode => {
-  if (!["text", "input_text", "input_audio"].includes(content.type)) {
-    // NOTE: we find content.type="audio" coming in here in logging though it is not in the types!
-    if ((content.type as string) !== "audio") {
-      log.warn(
-        `Unexpected type for RealtimeConversationItemContent '${content.type}'. Will not be rendered: %o`,
-        content
-      )
-    }
+  if (!["text", "input_text", "input_audio", "audio"].includes(content.type)) {
+    log.warn(
+      `Unexpected type for RealtimeConversationItemContent '${content.type}'. Will not be rendered: %o`,
+      content
+    )
     return null
   }
 
@@ -130,8 +197,8 @@ const ConversationItemContent = ({
       {(content.type == "text" || content.type == "input_text") && (
         <span>{content.text}</span>
       )}
-      {content.type == "input_audio" && (
-        <span className="input_audio transcript">
+      {(content.type == "input_audio" || content.type == "audio") && (
+        <span className={`${content.type} transcript`}>
           {content.transcript ? content.transcript : "..."}
         </span>
       )}
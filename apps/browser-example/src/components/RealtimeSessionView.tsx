@@ -1,4 +1,4 @@
-import { ReactNode, useState } from "react"
+import { ReactNode, useEffect, useState } from "react"
 import { BootstrapIcon } from "./BootstrapIcon"
 import { EventList } from "./EventList"
 import { useModal } from "../hooks/useModal"
@@ -14,12 +14,22 @@ export interface StartSessionOptions {
   sessionRequest: PartialSessionRequestWithModel
 }
 
+export interface PushToTalkControls {
+  setPushToTalk: (enabled: boolean) => Promise<void>
+  startTurn: () => void
+  endTurn: () => void
+}
+
 interface RealtimeSessionViewProps {
   startSession: (options: StartSessionOptions) => Promise<void>
   stopSession: () => Promise<void>
   sessionStatus: "unavailable" | "stopped" | "recording"
   events: { type: string }[]
   conversation?: RealtimeConversationItem[]
+  // not all SDKs support push-to-talk
+  pushToTalk?: PushToTalkControls
+  // not all SDKs record the user's audio
+  getItemAudio?: (itemId: string) => Promise<Blob | null>
 }
 
 export function RealtimeSessionView({
@@ -28,6 +38,8 @@ export function RealtimeSessionView({
   sessionStatus,
   events,
   conversation,
+  pushToTalk,
+  getItemAudio,
 }: RealtimeSessionViewProps): ReactNode {
   // TODO: allow user to select the model
   const model = "gpt-4o-realtime-preview-2024-12-17"
@@ -36,6 +48,16 @@ export function RealtimeSessionView({
     undefined
   )
 
+  const [pushToTalkEnabled, setPushToTalkEnabled] = useState(false)
+  const [talking, setTalking] = useState(false)
+  useEffect(() => {
+    // each session starts with server VAD
+    if (sessionStatus !== "recording") {
+      setPushToTalkEnabled(false)
+      setTalking(false)
+    }
+  }, [sessionStatus])
+
   const [activeTab, setActiveTab] = useState<"events" | "conversation">(
     "events"
   )
@@ -128,6 +150,58 @@ export function RealtimeSessionView({
             </label>
           </div>
         </li>
+        {pushToTalk && (
+          <>
+            <li className="nav-item">
+              <div className="form-check">
+                <input
+                  className="form-check-input"
+                  type="checkbox"
+                  id="pushToTalk"
+                  checked={pushToTalkEnabled}
+                  disabled={sessionStatus !== "recording"}
+                  onChange={async (e) => {
+                    const enabled = e.target.checked
+                    try {
+                      await pushToTalk.setPushToTalk(enabled)
+                      setPushToTalkEnabled(enabled)
+                    } catch (err) {
+                      console.error("Failed to change push-to-talk", err)
+                    }
+                  }}
+                />
+                <label className="form-check-label" htmlFor="pushToTalk">
+                  Push to Talk
+                </label>
+              </div>
+            </li>
+            <li className="nav-item">
+              <button
+                className={`btn btn-sm ${
+                  talking ? "btn-danger" : "btn-outline-danger"
+                }`}
+                type="button"
+                disabled={sessionStatus !== "recording" || !pushToTalkEnabled}
+                onPointerDown={() => {
+                  setTalking(true)
+                  pushToTalk.startTurn()
+                }}
+                onPointerUp={() => {
+                  if (!talking) return
+                  setTalking(false)
+                  pushToTalk.endTurn()
+                }}
+                onPointerLeave={() => {
+                  if (!talking) return
+                  setTalking(false)
+                  pushToTalk.endTurn()
+                }}
+              >
+                <BootstrapIcon name="mic" size={16} /> Hold to Talk
+              </button>
+            </li>
+          </>
+        )}
         <li className="nav-item">
           <button
             className="btn btn-sm btn-outline-secondary"
@@ -191,7 +265,10 @@ export function RealtimeSessionView({
           aria-labelledby="conversation-tab"
         >
           {conversation && conversation.length > 0 ? (
-            <ConversationView conversation={conversation} />
+            <ConversationView
+              conversation={conversation}
+              getItemAudio={getItemAudio}
+            />
           ) : (
             <div className="alert alert-info m-2" role="alert">
               {conversation !== undefined
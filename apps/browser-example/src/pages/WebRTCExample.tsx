@@ -3,7 +3,11 @@ import {
   RealtimeSessionView,
   StartSessionOptions,
 } from "../components/RealtimeSessionView"
-import { RealtimeClient } from "@tsorta/browser/WebRTC"
+import {
+  RealtimeClient,
+  WebRTCTransport,
+  WebSocketTransport,
+} from "@tsorta/browser/WebRTC"
 import { PageProps } from "./props"
 import {
   RealtimeConversationItem,
@@ -14,7 +18,13 @@ export function WebRTCExample({
   apiKey,
   sessionStatus,
   onSessionStatusChanged,
-}: PageProps): ReactNode {
+  transport = "WebRTC",
+}: PageProps & {
+  /**
+   * How the client connects to the Realtime API.
+   */
+  transport?: "WebRTC" | "WebSocket"
+}): ReactNode {
   const audioElementRef = useRef<HTMLAudioElement>(null)
 
   const [client, setClient] = useState<RealtimeClient | undefined>(undefined)
@@ -58,7 +68,13 @@ export function WebRTCExample({
 
           return data.client_secret.value
         },
-        audioElementRef.current
+        audioElementRef.current,
+        {
+          transport:
+            transport === "WebSocket"
+              ? new WebSocketTransport()
+              : new WebRTCTransport(),
+        }
       )
       setClient(client)
 
@@ -70,6 +86,22 @@ export function WebRTCExample({
         setConversation(event.conversation)
       })
 
+      client.addEventListener("connectionStateChanged", (event) => {
+        if (event.state === "connected") {
+          onSessionStatusChanged("recording")
+        } else if (event.state === "closed" || event.state === "failed") {
+          onSessionStatusChanged("stopped")
+        }
+      })
+
+      // an example of a function that the model can call:
+      client.registerTool({
+        name: "get_current_time",
+        description: "Gets the current date and time in the user's time zone.",
+        parameters: { type: "object", properties: {} },
+        handler: () => new Date().toString(),
+      })
+
       try {
         await client.start()
       } catch (e) {
@@ -77,31 +109,38 @@ export function WebRTCExample({
         console.error("Error starting session", e)
         return
       }
-
-      onSessionStatusChanged("recording")
     },
-    [apiKey, audioElementRef, onSessionStatusChanged, navigator]
+    [apiKey, audioElementRef, onSessionStatusChanged, navigator, transport]
   )
 
   const stopSession = useCallback(
     async function stopSession(): Promise<void> {
       await client?.stop()
-      onSessionStatusChanged("stopped")
     },
-    [client, onSessionStatusChanged]
+    [client]
   )
 
   return (
     <div className="container">
-      <h1>WebRTC Example</h1>
-      <p>
-        This example demonstrates how to use the OpenAI Realtime API directly.
-        It is using the TypeScript client from the article{" "}
-        <a href="https://scott.willeke.com/ai-typescript-client-for-openai-realtime-api">
-          AI Learns to Listen: TypeScript Client for OpenAI's Realtime API
-        </a>{" "}
-        by Scott Willeke.
-      </p>
+      <h1>{transport} Example</h1>
+      {transport === "WebSocket" ? (
+        <p>
+          This example uses the same TypeScript client as the WebRTC Example,
+          but connects to the OpenAI Realtime API with a WebSocket instead of
+          WebRTC. Microphone audio is streamed to the model as PCM16 and the
+          model's audio is decoded and played in the browser, so the
+          conversation state and audio work just like they do with WebRTC.
+        </p>
+      ) : (
+        <p>
+          This example demonstrates how to use the OpenAI Realtime API directly.
+          It is using the TypeScript client from the article{" "}
+          <a href="https://scott.willeke.com/ai-typescript-client-for-openai-realtime-api">
+            AI Learns to Listen: TypeScript Client for OpenAI's Realtime API
+          </a>{" "}
+          by Scott Willeke.
+        </p>
+      )}
       <audio ref={audioElementRef}></audio>
 
       <RealtimeSessionView
@@ -110,6 +149,18 @@ export function WebRTCExample({
         sessionStatus={sessionStatus}
         events={events}
         conversation={conversation}
+        getItemAudio={client && ((itemId) => client.getItemAudio(itemId))}
+        pushToTalk={
+          client && {
+            setPushToTalk: (enabled) => client.setPushToTalk(enabled),
+            startTurn: () => client.startTurn(),
+            endTurn: () => {
+              client.endTurn().catch((err) => {
+                console.error("Failed to get a response", err)
+              })
+            },
+          }
+        }
       />
     </div>
   )
@@ -0,0 +1,100 @@
+/**
+ * The level of an audio signal over a short window, in dBFS (decibels relative to full scale). 0 is the loudest possible level and silence is -Infinity.
+ */
+export interface AudioLevel {
+  /**
+   * The root mean square level, which follows perceived loudness.
+   */
+  rms: number
+  /**
+   * The level of the loudest sample.
+   */
+  peak: number
+}
+
+/**
+ * Measures the level of an audio stream with an AnalyserNode.
+ */
+class AudioLevelMeter {
+  private source: MediaStreamAudioSourceNode | undefined = undefined
+  private readonly analyser: AnalyserNode
+  private readonly samples: Float32Array<ArrayBuffer>
+
+  constructor(private readonly audioContext: AudioContext) {
+    this.analyser = audioContext.createAnalyser()
+    this.samples = new Float32Array(this.analyser.fftSize)
+  }
+
+  setStream(stream: MediaStream) {
+    this.source?.disconnect()
+    this.source = this.audioContext.createMediaStreamSource(stream)
+    this.source.connect(this.analyser)
+  }
+
+  measure(): AudioLevel | undefined {
+    if (!this.source) {
+      return undefined
+    }
+    this.analyser.getFloatTimeDomainData(this.samples)
+    let sumOfSquares = 0
+    let peak = 0
+    for (const sample of this.samples) {
+      sumOfSquares += sample * sample
+      peak = Math.max(peak, Math.abs(sample))
+    }
+    const rms = Math.sqrt(sumOfSquares / this.samples.length)
+    return { rms: toDecibels(rms), peak: toDecibels(peak) }
+  }
+
+  close() {
+    this.source?.disconnect()
+    this.source = undefined
+  }
+}
+
+function toDecibels(amplitude: number): number {
+  return 20 * Math.log10(amplitude)
+}
+
+/**
+ * Periodically measures the level of the user's audio (input) and the model's audio (output).
+ */
+export class AudioLevelMonitor {
+  private readonly audioContext = new AudioContext()
+  private readonly input = new AudioLevelMeter(this.audioContext)
+  private readonly output = new AudioLevelMeter(this.audioContext)
+  private readonly timer: ReturnType<typeof setInterval>
+
+  /**
+   * @param interval The interval in milliseconds between measurements.
+   * @param onLevels Called with the levels of the streams that have been set at each interval.
+   */
+  constructor(
+    interval: number,
+    onLevels: (
+      input: AudioLevel | undefined,
+      output: AudioLevel | undefined,
+    ) => void,
+  ) {
+    this.timer = setInterval(() => {
+      onLevels(this.input.measure(), this.output.measure())
+    }, interval)
+  }
+
+  setInputStream(stream: MediaStream): void {
+    this.input.setStream(stream)
+    void this.audioContext.resume()
+  }
+
+  setOutputStream(stream: MediaStream): void {
+    this.output.setStream(stream)
+    void this.audioContext.resume()
+  }
+
+  close(): void {
+    clearInterval(this.timer)
+    this.input.close()
+    this.output.close()
+    void this.audioContext.close()
+  }
+}
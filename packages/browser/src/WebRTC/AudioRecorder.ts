@@ -0,0 +1,216 @@
+/**
+ * The audio that can be recorded:
+ * - `user`: The user's audio (i.e. the microphone).
+ * - `assistant`: The model's audio.
+ * - `mixed`: A stereo recording of the user's audio on the left channel and the model's audio on the right channel.
+ */
+export type RecordedAudioSource = "user" | "assistant" | "mixed"
+
+type RecordedStreamSource = Exclude<RecordedAudioSource, "mixed">
+
+const RECORDED_AUDIO_SOURCES: RecordedAudioSource[] = [
+  "user",
+  "assistant",
+  "mixed",
+]
+
+// The containers/codecs to record in, in order of preference. Browsers support different ones (e.g. Safari only records mp4).
+const PREFERRED_MIME_TYPES = [
+  "audio/webm;codecs=opus",
+  "audio/webm",
+  "audio/mp4",
+  "audio/ogg;codecs=opus",
+]
+
+/**
+ * Returns the first of the preferred mime types that the browser can record, or undefined to let the browser choose.
+ */
+function pickMimeType(): string | undefined {
+  if (typeof MediaRecorder.isTypeSupported !== "function") {
+    return undefined
+  }
+  return PREFERRED_MIME_TYPES.find((type) =>
+    MediaRecorder.isTypeSupported(type),
+  )
+}
+
+/**
+ * Records the user's audio, the model's audio, and a mix of the two.
+ * The streams are routed through a Web Audio graph into a MediaStreamAudioDestinationNode for each recording, so the recordings start together, stay aligned, and continue when a stream is replaced (e.g. switching microphones or reconnecting).
+ */
+export class AudioRecorder {
+  private readonly audioContext = new AudioContext()
+  // Stable inputs to the graph that the streams' sources connect to
+  private readonly inputs: Record<RecordedStreamSource, GainNode>
+  private readonly sources: Partial<
+    Record<RecordedStreamSource, MediaStreamAudioSourceNode>
+  > = {}
+  private readonly recorders: Record<RecordedAudioSource, MediaRecorder>
+  private readonly chunks: Record<RecordedAudioSource, Blob[]> = {
+    user: [],
+    assistant: [],
+    mixed: [],
+  }
+  private readonly startedAt: number
+
+  /**
+   * @param chunkDuration The duration in milliseconds of each recorded chunk.
+   * @param onChunk Called with all of the chunks recorded so far each time a chunk is recorded.
+   */
+  constructor(
+    chunkDuration: number,
+    onChunk: (source: RecordedAudioSource, chunks: Blob[]) => void,
+  ) {
+    const ctx = this.audioContext
+    this.inputs = { user: ctx.createGain(), assistant: ctx.createGain() }
+
+    const merger = ctx.createChannelMerger(2)
+    this.inputs.user.connect(merger, 0, 0)
+    this.inputs.assistant.connect(merger, 0, 1)
+
+    const destinations: Record<
+      RecordedAudioSource,
+      MediaStreamAudioDestinationNode
+    > = {
+      user: createMonoDestination(ctx),
+      assistant: createMonoDestination(ctx),
+      mixed: ctx.createMediaStreamDestination(),
+    }
+    this.inputs.user.connect(destinations.user)
+    this.inputs.assistant.connect(destinations.assistant)
+    merger.connect(destinations.mixed)
+
+    const mimeType = pickMimeType()
+    const recorders: Partial<Record<RecordedAudioSource, MediaRecorder>> = {}
+    for (const source of RECORDED_AUDIO_SOURCES) {
+      const recorder = new MediaRecorder(destinations[source].stream, {
+        mimeType,
+      })
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          this.chunks[source].push(event.data)
+          onChunk(source, this.chunks[source])
+        }
+      }
+      recorders[source] = recorder
+    }
+    this.recorders = recorders as Record<RecordedAudioSource, MediaRecorder>
+
+    void ctx.resume()
+    for (const recorder of Object.values(this.recorders)) {
+      // Record in small chunks for better handling
+      recorder.start(chunkDuration)
+    }
+    this.startedAt = performance.now()
+  }
+
+  /**
+   * The time in milliseconds since the recording started, i.e. the current position in the recordings.
+   */
+  get elapsedMs(): number {
+    return performance.now() - this.startedAt
+  }
+
+  /**
+   * Records the given stream as the user's or the model's audio, replacing the stream that was recorded.
+   */
+  setStream(source: RecordedStreamSource, stream: MediaStream): void {
+    this.sources[source]?.disconnect()
+    const node = this.audioContext.createMediaStreamSource(stream)
+    node.connect(this.inputs[source])
+    this.sources[source] = node
+  }
+
+  hasRecording(source: RecordedAudioSource): boolean {
+    return this.chunks[source].length > 0
+  }
+
+  /**
+   * The type of the recorded audio (e.g. `audio/webm;codecs=opus`), as reported by the MediaRecorder once it started.
+   */
+  getMimeType(source: RecordedAudioSource): string {
+    // the recorder's type is only known after it starts, so fall back to the type of the data it produced
+    return this.recorders[source].mimeType || this.chunks[source][0]?.type || ""
+  }
+
+  getRecording(source: RecordedAudioSource): Blob | null {
+    if (this.chunks[source].length === 0) {
+      return null
+    }
+    return new Blob(this.chunks[source], { type: this.getMimeType(source) })
+  }
+
+  /**
+   * Decodes the recording to PCM, resampled to the given sample rate.
+   * @returns The decoded audio or null if nothing was recorded yet.
+   */
+  async decode(
+    source: RecordedAudioSource,
+    sampleRate: number,
+  ): Promise<AudioBuffer | null> {
+    const recording = this.getRecording(source)
+    if (!recording) {
+      return null
+    }
+    // decodeAudioData resamples to the context's sample rate
+    const context = new OfflineAudioContext(1, 1, sampleRate)
+    return await context.decodeAudioData(await recording.arrayBuffer())
+  }
+
+  /**
+   * Decodes the part of the recording between the given positions (see @see elapsedMs).
+   * @returns The decoded audio or null if nothing was recorded in that range.
+   */
+  async decodeClip(
+    source: RecordedAudioSource,
+    sampleRate: number,
+    startMs: number,
+    endMs: number,
+  ): Promise<AudioBuffer | null> {
+    const buffer = await this.decode(source, sampleRate)
+    if (!buffer) {
+      return null
+    }
+    const start = Math.max(0, Math.floor((startMs / 1000) * sampleRate))
+    const end = Math.min(buffer.length, Math.ceil((endMs / 1000) * sampleRate))
+    if (end <= start) {
+      return null
+    }
+    const clip = new AudioBuffer({
+      length: end - start,
+      numberOfChannels: buffer.numberOfChannels,
+      sampleRate,
+    })
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      clip.copyToChannel(
+        buffer.getChannelData(channel).subarray(start, end),
+        channel,
+      )
+    }
+    return clip
+  }
+
+  /**
+   * Stops recording. The recordings remain available.
+   */
+  stop(): void {
+    for (const recorder of Object.values(this.recorders)) {
+      if (recorder.state !== "inactive") {
+        recorder.stop()
+      }
+    }
+    for (const source of Object.values(this.sources)) {
+      source.disconnect()
+    }
+    void this.audioContext.close()
+  }
+}
+
+function createMonoDestination(
+  ctx: AudioContext,
+): MediaStreamAudioDestinationNode {
+  const destination = ctx.createMediaStreamDestination()
+  destination.channelCount = 1
+  destination.channelCountMode = "explicit"
+  return destination
+}
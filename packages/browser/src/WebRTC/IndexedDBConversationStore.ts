@@ -0,0 +1,92 @@
+import type { ConversationStore } from "../core"
+import type { RealtimeConversationItem } from "../openai"
+
+const OBJECT_STORE_NAME = "conversations"
+
+interface SavedConversation {
+  items: RealtimeConversationItem[]
+  updatedAt: number
+}
+
+/**
+ * A @see ConversationStore that saves conversations in the browser's IndexedDB, so they survive page refreshes.
+ */
+export class IndexedDBConversationStore implements ConversationStore {
+  private database: Promise<IDBDatabase> | undefined = undefined
+
+  /**
+   * @param databaseName The name of the IndexedDB database that the conversations are saved in.
+   */
+  constructor(
+    private readonly databaseName: string = "tsorta-realtime-conversations",
+  ) {}
+
+  async save(
+    conversationId: string,
+    items: RealtimeConversationItem[],
+  ): Promise<void> {
+    const saved: SavedConversation = { items, updatedAt: Date.now() }
+    await this.write((store) => store.put(saved, conversationId))
+  }
+
+  async load(
+    conversationId: string,
+  ): Promise<RealtimeConversationItem[] | undefined> {
+    const db = await this.open()
+    const store = db
+      .transaction(OBJECT_STORE_NAME, "readonly")
+      .objectStore(OBJECT_STORE_NAME)
+    const saved = (await requestResult(store.get(conversationId))) as
+      SavedConversation | undefined
+    return saved?.items
+  }
+
+  async delete(conversationId: string): Promise<void> {
+    await this.write((store) => store.delete(conversationId))
+  }
+
+  /**
+   * Closes the database. It is opened again when it is next used.
+   */
+  async close(): Promise<void> {
+    const database = this.database
+    this.database = undefined
+    ;(await database)?.close()
+  }
+
+  private async write(
+    change: (store: IDBObjectStore) => IDBRequest,
+  ): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(OBJECT_STORE_NAME, "readwrite")
+    change(transaction.objectStore(OBJECT_STORE_NAME))
+    // the change is only durable once the transaction completes
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(this.databaseName, 1)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(OBJECT_STORE_NAME)
+      }
+      this.database = requestResult(request)
+      // allow opening it again after a failure (e.g. the user blocked storage)
+      this.database.catch(() => {
+        this.database = undefined
+      })
+    }
+    return this.database
+  }
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
@@ -1,38 +1,34 @@
 import type {
-  RealtimeClientEventSessionUpdate,
-  RealtimeConversationItem,
+  RealtimeClientEvent,
+  RealtimeResponse,
   RealtimeServerEvent,
-  RealtimeServerEventConversationItemCreated,
-  RealtimeServerEventError,
-  RealtimeServerEventResponseAudioTranscriptDelta,
-  RealtimeServerEventResponseAudioTranscriptDone,
-  RealtimeServerEventResponseDone,
-  RealtimeServerEventSessionCreated,
-  RealtimeServerEventSessionUpdated,
-  RealtimeSession,
   RealtimeSessionCreateRequest,
 } from "../openai"
 import {
-  findConversationItem,
-  findConversationItemContent,
-  patchConversationItemWithCompletedTranscript,
-} from "./items"
-import { TypedEventTarget } from "typescript-event-target"
+  RealtimeClientBase,
+  type RealtimeClientBaseOptions,
+  type RealtimeConnectionState,
+} from "../core"
 import { secondsToMilliseconds } from "../duration"
 import {
-  RealtimeServerEventEvent,
-  SessionCreatedEvent,
-  SessionUpdatedEvent,
-  ConversationChangedEvent,
+  InputDeviceLostEvent,
+  InputLevelEvent,
+  OutputLevelEvent,
   RecordedAudioChangedEvent,
-  EventTargetListener,
-  RealtimeClientEventMap,
+  RealtimeBrowserClientEventMap,
 } from "./events"
-import { isEqual } from "lodash-es"
-
-const log = console
-
-interface RealtimeClientOptions {
+import type {
+  RealtimeTransport,
+  RealtimeTransportState,
+} from "./RealtimeTransport"
+import { WebRTCTransport } from "./WebRTCTransport"
+import { WebAudioOutput } from "./WebAudioOutput"
+import { AudioLevelMonitor } from "./AudioLevelMonitor"
+import { AudioRecorder, type RecordedAudioSource } from "./AudioRecorder"
+import { PCM16_SAMPLE_RATE } from "../pcm16"
+import { audioBufferToWav } from "../wav"
+
+interface RealtimeClientOptions extends RealtimeClientBaseOptions {
   /**
    * The duration in milliseconds of each recorded audio chunk. This will also determine the frequency of the recordedAudioChanged event.
    */
@@ -45,32 +41,131 @@ interface RealtimeClientOptions {
    * The base URL for the Realtime API.
    */
   baseUrl: string
+  /**
+   * The transport used to exchange events and audio with the Realtime API. Defaults to a @see WebRTCTransport. Use a @see WebSocketTransport where WebRTC isn't available.
+   */
+  transport?: RealtimeTransport
+  /**
+   * The id of the microphone to use (from `navigator.mediaDevices.enumerateDevices()`). Defaults to the system's default microphone. Use @see RealtimeClient.switchInputDevice to change it during a session.
+   */
+  inputDeviceId?: string
+  /**
+   * The constraints for the microphone's audio track passed to `getUserMedia`. The `deviceId` constraint is set from inputDeviceId when it is specified.
+   * See https://developer.mozilla.org/en-US/docs/Web/API/MediaTrackConstraints
+   */
+  audioConstraints: MediaTrackConstraints
+  /**
+   * When true, the model's audio is played through Web Audio rather than the audio element, which enables @see RealtimeClient.outputGain and @see RealtimeClient.outputAnalyser.
+   */
+  useWebAudioOutput: boolean
+  /**
+   * The id of the speakers to play the model's audio on (from `navigator.mediaDevices.enumerateDevices()`). Defaults to the system's default output device. Use @see RealtimeClient.setOutputDevice to change it during a session.
+   */
+  outputDeviceId?: string
+  /**
+   * The interval in milliseconds at which the inputLevel and outputLevel events are emitted. When not specified, audio levels aren't measured.
+   */
+  audioLevelInterval?: number
+  /**
+   * When true, the session starts in push-to-talk mode. See @see RealtimeClient.setPushToTalk.
+   */
+  pushToTalk: boolean
+  /**
+   * When true, the model's audio message is truncated to the part the user heard when they interrupt it (i.e. on `input_audio_buffer.speech_started`). This keeps the model's context and the conversation's transcript consistent with what the user actually heard.
+   * See https://platform.openai.com/docs/api-reference/realtime-client-events/conversation/item/truncate
+   */
+  truncateOnInterruption: boolean
+  /**
+   * When true, the client reconnects when the connection fails or is closed by the server during a session (e.g. the peer connection's ICE fails or the data channel closes). A new ephemeral key is requested with getRealtimeEphemeralAPIKey, the session configuration is re-applied, and the text of the conversation is replayed to the new session so the model keeps the context.
+   */
+  autoReconnect: boolean
+  /**
+   * The maximum number of attempts to reconnect before the client gives up and its state becomes `failed`.
+   */
+  reconnectMaxAttempts: number
+  /**
+   * The delay in milliseconds before the first attempt to reconnect. The delay is doubled for each subsequent attempt.
+   */
+  reconnectInitialDelay: number
+  /**
+   * The maximum delay in milliseconds between attempts to reconnect.
+   */
+  reconnectMaxDelay: number
+}
+
+/**
+ * The options for @see RealtimeClient.start.
+ */
+export interface RealtimeClientStartOptions {
+  /**
+   * Aborts starting the session. When aborted, start rejects with the signal's reason and the client's state becomes `closed`.
+   */
+  signal?: AbortSignal
+  /**
+   * The audio to send to the model instead of the microphone (e.g. a screen share, a Web Audio graph, or a synthesized stream in tests). When specified, `getUserMedia` isn't called and the stream's tracks are not stopped when the client stops; the caller owns them.
+   */
+  inputStream?: MediaStream
+  /**
+   * The id of a conversation saved in the `conversationStore` option (see @see RealtimeClient.conversationId) to continue in the new session. The text of its messages is sent to the model before the first turn.
+   */
+  restoreFrom?: string
 }
 
 const RealtimeClientDefaultOptions: RealtimeClientOptions = {
   recordedAudioChunkDuration: secondsToMilliseconds(1),
   model: "gpt-4o-realtime-preview-2024-12-17",
   baseUrl: "https://api.openai.com/v1/realtime",
+  audioConstraints: {
+    echoCancellation: { ideal: true },
+    noiseSuppression: { ideal: true },
+  },
+  useWebAudioOutput: false,
+  pushToTalk: false,
+  truncateOnInterruption: false,
+  autoReconnect: false,
+  reconnectMaxAttempts: 5,
+  reconnectInitialDelay: secondsToMilliseconds(1),
+  reconnectMaxDelay: secondsToMilliseconds(30),
 }
 
 /**
- * A TypeScript client for the OpenAI Realtime API using WebRTC in the browser.
+ * A TypeScript client for the OpenAI Realtime API in the browser. Uses WebRTC by default, or any other @see RealtimeTransport.
  */
-export class RealtimeClient {
-  private peerConnection: RTCPeerConnection | undefined = undefined
+export class RealtimeClient extends RealtimeClientBase<RealtimeBrowserClientEventMap> {
   private localMediaStream: MediaStream | undefined = undefined
-  private dataChannel: RTCDataChannel | undefined = undefined
-  private mediaRecorder: MediaRecorder | undefined = undefined
-  private audioChunks: Blob[] = []
-  private conversation: RealtimeConversationItem[] = []
-  // Session as received from the server in create/update
-  private session: RealtimeSession | undefined = undefined
-
-  // NOTE: We use EventTarget rather than EventEmitter because EventTarget is standardized in the Browser and has one in Node.js (https://nodejs.org/api/events.html#class-eventtarget). I'm also not extending EventTarget as I don't wan't to expose the full EventTarget (untyped) interface at this time. We may consider exposing it in the future
-  private emitter = new TypedEventTarget<RealtimeClientEventMap>()
+  // false when localMediaStream was provided to start, so its tracks are left for the caller to stop
+  private ownsLocalMediaStream = false
+  private audioRecorder: AudioRecorder | undefined = undefined
+  // the position in the recordings where the server's input audio buffer starts for the current session
+  private sessionAudioStartMs = 0
+  // the position in the user's recording of each user item's speech
+  private readonly itemAudioSegments = new Map<
+    string,
+    { startMs: number; endMs?: number }
+  >()
+  // in push-to-talk mode there is no voice activity detection, so the user's turn is the item's speech
+  private turnStartMs: number | undefined = undefined
+  private pendingTurnSegment: { startMs: number; endMs: number } | undefined =
+    undefined
   private readonly recordedAudioChunkDuration: number
   private readonly model: string
   private readonly baseUrl: string
+  private readonly transport: RealtimeTransport
+  private inputDeviceId: string | undefined
+  private readonly audioConstraints: MediaTrackConstraints
+  private readonly useWebAudioOutput: boolean
+  private webAudioOutput: WebAudioOutput | undefined = undefined
+  private outputDeviceId: string | undefined
+  private readonly audioLevelInterval: number | undefined
+  private audioLevelMonitor: AudioLevelMonitor | undefined = undefined
+  private muted = false
+  private pushToTalk: boolean
+  private readonly truncateOnInterruption: boolean
+  private readonly autoReconnect: boolean
+  private readonly reconnectMaxAttempts: number
+  private readonly reconnectInitialDelay: number
+  private readonly reconnectMaxDelay: number
+  private reconnectInProgress = false
 
   /**
    * Create a new client.
@@ -82,139 +177,365 @@ export class RealtimeClient {
     private readonly audioElement: HTMLAudioElement,
     options: Partial<RealtimeClientOptions> = RealtimeClientDefaultOptions,
   ) {
+    super(options)
     const opt = { ...RealtimeClientDefaultOptions, ...options }
     this.recordedAudioChunkDuration = opt.recordedAudioChunkDuration
     this.model = opt.model
     this.baseUrl = opt.baseUrl
+    this.transport = opt.transport ?? new WebRTCTransport()
+    this.inputDeviceId = opt.inputDeviceId
+    this.audioConstraints = opt.audioConstraints
+    this.pushToTalk = opt.pushToTalk
+    this.useWebAudioOutput = opt.useWebAudioOutput
+    this.outputDeviceId = opt.outputDeviceId
+    this.audioLevelInterval = opt.audioLevelInterval
+    this.truncateOnInterruption = opt.truncateOnInterruption
+    this.autoReconnect = opt.autoReconnect
+    this.reconnectMaxAttempts = opt.reconnectMaxAttempts
+    this.reconnectInitialDelay = opt.reconnectInitialDelay
+    this.reconnectMaxDelay = opt.reconnectMaxDelay
   }
 
   /**
-   * Adds an event listener for the specified event.
-   * NOTE: This is compatible with the DOM @see EventTarget.addEventListener method, but more strictly typed.
+   * Starts a session: requests access to the microphone and connects to the Realtime API.
+   * @throws {RealtimeAuthError} When the API key was rejected.
+   * @throws {RealtimeRateLimitError} When the request to start the session was rate limited.
+   * @throws {RealtimeNegotiationError} When the session could not be negotiated for another reason.
+   * @throws {Error} When the conversation to restore could not be loaded.
    */
-  public addEventListener<TEventName extends keyof RealtimeClientEventMap>(
-    event: TEventName,
-    listener: EventTargetListener<RealtimeClientEventMap[TEventName]>,
-  ): void {
-    this.emitter.addEventListener(event, listener)
-  }
-
-  async start(): Promise<void> {
+  async start({
+    signal,
+    inputStream,
+    restoreFrom,
+  }: RealtimeClientStartOptions = {}): Promise<void> {
     // clear conversation for a new session...
-    this.conversation = []
+    this.resetConversation()
+    this.itemAudioSegments.clear()
+    this.turnStartMs = undefined
+    this.pendingTurnSegment = undefined
+    // in push-to-talk mode the user's audio is only sent during their turn
+    this.muted = this.pushToTalk
 
-    // Create a peer connection
     try {
       try {
-        await this.initializePeerConnection()
+        await this.initializeConversation(restoreFrom)
       } catch (err) {
-        log.error("Failed to initialize peer connection", err)
+        this.clientLog.error("Failed to initialize conversation", err)
         throw err
       }
-
-      // Initialize MediaRecorder
-      try {
-        this.initializeMediaRecorder()
-      } catch (err) {
-        log.error("Failed to initialize media recorder", err)
-        throw err
+      signal?.throwIfAborted()
+
+      if (inputStream) {
+        this.localMediaStream = inputStream
+        this.ownsLocalMediaStream = false
+        this.applyMuted()
+      } else {
+        this.setState("requestingMedia")
+        try {
+          await this.initializeLocalMediaStream()
+        } catch (err) {
+          this.clientLog.error("Failed to initialize local media stream", err)
+          throw err
+        }
+        signal?.throwIfAborted()
       }
 
-      // Create a data channel from a peer connection
-      let dataChannelOpenedPromise: Promise<void>
+      // Initialize recording
       try {
-        //  this promise will resolve when the channel is open and it's safe to send client events. It must be opened by the server after we initialize the channel with the SDP
-        dataChannelOpenedPromise = this.initializeDataChannel()
+        this.initializeAudioRecorder()
       } catch (err) {
-        log.error("Failed to initialize data channel", err)
+        this.clientLog.error("Failed to initialize audio recorder", err)
         throw err
       }
 
       try {
-        // Start the session using the Session Description Protocol (SDP)
-        await this.initializeSession()
+        await this.initializeOutput()
       } catch (err) {
-        log.error("Failed to initialize session", err)
+        this.clientLog.error("Failed to initialize audio output", err)
         throw err
       }
 
-      // await data channel open so that clientEvents can be sent before we continue or return
+      this.setState("negotiating")
       try {
-        await dataChannelOpenedPromise
+        // resolves once it is safe to send client events
+        await this.initializeTransport(signal)
       } catch (err) {
-        log.error("Failed to await data channel open", err)
+        this.clientLog.error("Failed to initialize transport", err)
         throw err
       }
+      if (restoreFrom) {
+        // before the first turn, so the model responds with the context of the restored conversation
+        this.replayConversation()
+      }
+      if (this.pushToTalk) {
+        try {
+          await this.setPushToTalk(true)
+        } catch (err) {
+          this.clientLog.error("Failed to enable push-to-talk", err)
+          throw err
+        }
+      }
+      this.setState("connected")
     } catch (err) {
-      log.error("Failed to start RealtimeClient", err)
-      // call stop to cleanup anything partially initialized
-      await this.stop()
+      // cleanup anything partially initialized
+      this.release()
+      // stop() may have been called while starting
+      const state = this.state as RealtimeConnectionState
+      if (signal?.aborted || state === "closed") {
+        this.clientLog.debug("Starting RealtimeClient was aborted")
+        this.setState("closed")
+      } else {
+        this.clientLog.error("Failed to start RealtimeClient", err)
+        this.setState("failed", err)
+      }
       throw err
     }
   }
 
-  private async initializePeerConnection() {
-    this.peerConnection = new RTCPeerConnection()
-
-    // Set up to play remote audio from the model
-    this.peerConnection.ontrack = (e) => {
-      this.audioElement.srcObject = e.streams[0]
-      this.audioElement.muted = false
-      this.audioElement.autoplay = true
-    }
+  private async initializeLocalMediaStream() {
+    // Get the local audio track for microphone input in the browser:
+    this.localMediaStream = await this.getInputMediaStream()
+    this.ownsLocalMediaStream = true
+    this.applyMuted()
+    this.navigator.mediaDevices.addEventListener(
+      "devicechange",
+      this.handleDeviceChange,
+    )
+  }
 
-    // Add local audio track for microphone input in the browser:
-    this.localMediaStream = await this.navigator.mediaDevices.getUserMedia({
+  private getInputMediaStream(): Promise<MediaStream> {
+    return this.navigator.mediaDevices.getUserMedia({
       audio: {
-        // see https://developer.mozilla.org/en-US/docs/Web/API/MediaTrackConstraints
-        echoCancellation: { ideal: true },
-        noiseSuppression: { ideal: true },
+        ...this.audioConstraints,
+        ...(this.inputDeviceId && { deviceId: { exact: this.inputDeviceId } }),
       },
     })
-    const track = this.localMediaStream.getTracks()[0]
-    this.peerConnection.addTrack(track)
   }
 
-  private initializeMediaRecorder() {
-    if (!this.localMediaStream) {
-      throw new Error("No local media stream")
+  /**
+   * Switches to another microphone during a session. The new microphone's track replaces the current one without renegotiating the connection.
+   * @param deviceId The id of the microphone to use (from `navigator.mediaDevices.enumerateDevices()`).
+   */
+  public async switchInputDevice(deviceId: string): Promise<void> {
+    const previousStream = this.localMediaStream
+    if (!previousStream) {
+      throw new Error("The client has not been started")
+    }
+    const previousDeviceId = this.inputDeviceId
+    this.inputDeviceId = deviceId
+    let stream: MediaStream | undefined = undefined
+    try {
+      stream = await this.getInputMediaStream()
+      stream.getAudioTracks().forEach((track) => (track.enabled = !this.muted))
+      await this.transport.replaceInputTrack(stream.getAudioTracks()[0])
+    } catch (err) {
+      this.clientLog.error(`Failed to switch to input device ${deviceId}`, err)
+      this.inputDeviceId = previousDeviceId
+      // don't leave the new microphone open
+      stream?.getTracks().forEach((track) => track.stop())
+      throw err
+    }
+    this.localMediaStream = stream
+    this.applyMuted()
+    this.audioLevelMonitor?.setInputStream(stream)
+    this.audioRecorder?.setStream("user", stream)
+    if (this.ownsLocalMediaStream) {
+      previousStream.getTracks().forEach((track) => track.stop())
+    } else {
+      // the client now owns the microphone it opened
+      this.ownsLocalMediaStream = true
+      this.navigator.mediaDevices.addEventListener(
+        "devicechange",
+        this.handleDeviceChange,
+      )
+    }
+  }
+
+  /**
+   * Indicates if the user's audio is muted. See @see mute.
+   */
+  public get isMuted(): boolean {
+    return this.muted
+  }
+
+  /**
+   * Stops sending the user's audio to the model. The microphone stays open, but its track is disabled, so silence is sent instead.
+   */
+  public mute(): void {
+    this.muted = true
+    this.applyMuted()
+  }
+
+  /**
+   * Resumes sending the user's audio to the model.
+   */
+  public unmute(): void {
+    this.muted = false
+    this.applyMuted()
+  }
+
+  private applyMuted() {
+    this.localMediaStream?.getAudioTracks().forEach((track) => {
+      track.enabled = !this.muted
+    })
+  }
+
+  /**
+   * Enables or disables push-to-talk mode. In push-to-talk mode server VAD is disabled (i.e. `turn_detection` is null) and the user's audio is muted except during their turn: call @see startTurn when the user starts talking (e.g. presses the button) and @see endTurn when they're done to get the model's response.
+   * When disabled, server VAD is enabled and the user's audio is unmuted.
+   */
+  public async setPushToTalk(enabled: boolean): Promise<void> {
+    await this.updateSession({
+      // NOTE: OpenAI's OpenAPI types have a bit of a mismatch here: null is how server VAD is disabled
+      turn_detection: enabled
+        ? (null as unknown as RealtimeSessionCreateRequest["turn_detection"])
+        : { type: "server_vad", create_response: true },
+    })
+    this.pushToTalk = enabled
+    if (enabled) {
+      this.mute()
+    } else {
+      this.unmute()
     }
+  }
 
-    this.mediaRecorder = new MediaRecorder(this.localMediaStream)
-    this.setRecordedAudio([])
+  /**
+   * Starts the user's turn in push-to-talk mode: discards any audio in the input audio buffer and unmutes the user's audio.
+   */
+  public startTurn(): void {
+    this.clearInputAudio()
+    this.unmute()
+    this.turnStartMs = this.audioRecorder?.elapsedMs
+  }
 
-    this.mediaRecorder.ondataavailable = async (event) => {
-      if (event.data.size > 0) {
-        this.addRecordedAudio(event.data)
+  /**
+   * Ends the user's turn: commits the input audio buffer to a new user message and asks the model to respond to it. In push-to-talk mode the user's audio is muted again.
+   * @returns A promise that resolves with the model's response once it is done.
+   */
+  public endTurn(): Promise<RealtimeResponse> {
+    if (this.pushToTalk) {
+      this.mute()
+    }
+    if (this.turnStartMs !== undefined && this.audioRecorder) {
+      // the item is known once the server commits the input audio buffer
+      this.pendingTurnSegment = {
+        startMs: this.turnStartMs,
+        endMs: this.audioRecorder.elapsedMs,
       }
+      this.turnStartMs = undefined
     }
+    return super.endTurn()
+  }
 
-    // Record in small chunks for better handling
-    this.mediaRecorder.start(this.recordedAudioChunkDuration)
+  private async initializeOutput() {
+    if (this.audioLevelInterval) {
+      this.audioLevelMonitor = new AudioLevelMonitor(
+        this.audioLevelInterval,
+        (input, output) => {
+          if (input) {
+            this.emitter.dispatchTypedEvent(
+              "inputLevel",
+              new InputLevelEvent(input.rms, input.peak),
+            )
+          }
+          if (output) {
+            this.emitter.dispatchTypedEvent(
+              "outputLevel",
+              new OutputLevelEvent(output.rms, output.peak),
+            )
+          }
+        },
+      )
+      if (this.localMediaStream) {
+        this.audioLevelMonitor.setInputStream(this.localMediaStream)
+      }
+    }
+    if (this.useWebAudioOutput) {
+      this.webAudioOutput = new WebAudioOutput()
+    }
+    if (this.outputDeviceId) {
+      await this.setOutputDevice(this.outputDeviceId)
+    }
   }
 
-  private addRecordedAudio(...audioChunks: Blob[]) {
-    this.audioChunks.push(...audioChunks)
-    this.emitter.dispatchTypedEvent(
-      "recordedAudioChanged",
-      new RecordedAudioChangedEvent(this.audioChunks),
-    )
+  /**
+   * Controls the volume of the model's audio (e.g. to duck it while the user is talking). Only available with the useWebAudioOutput option, once the client is started.
+   */
+  public get outputGain(): GainNode | undefined {
+    return this.webAudioOutput?.gain
   }
 
-  private setRecordedAudio(audioChunks: Blob[]) {
-    this.audioChunks = audioChunks
-    this.emitter.dispatchTypedEvent(
-      "recordedAudioChanged",
-      new RecordedAudioChangedEvent(this.audioChunks),
+  /**
+   * Analyses the model's audio (e.g. for visualizations). Only available with the useWebAudioOutput option, once the client is started.
+   */
+  public get outputAnalyser(): AnalyserNode | undefined {
+    return this.webAudioOutput?.analyser
+  }
+
+  /**
+   * Plays the model's audio on the specified speakers.
+   * @param sinkId The id of the audio output device (from `navigator.mediaDevices.enumerateDevices()`).
+   */
+  public async setOutputDevice(sinkId: string): Promise<void> {
+    if (this.webAudioOutput) {
+      await this.webAudioOutput.setSinkId(sinkId)
+    } else {
+      await this.audioElement.setSinkId(sinkId)
+    }
+    this.outputDeviceId = sinkId
+  }
+
+  private handleDeviceChange = async () => {
+    const track = this.localMediaStream?.getAudioTracks()[0]
+    if (!track) {
+      return
+    }
+    const { deviceId } = track.getSettings()
+    try {
+      const devices = await this.navigator.mediaDevices.enumerateDevices()
+      const found = devices.some(
+        (device) =>
+          device.kind === "audioinput" && device.deviceId === deviceId,
+      )
+      if (!found || track.readyState === "ended") {
+        this.clientLog.warn(`Input device ${deviceId} was disconnected`)
+        this.emitter.dispatchTypedEvent(
+          "inputDeviceLost",
+          new InputDeviceLostEvent(deviceId),
+        )
+      }
+    } catch (err) {
+      this.clientLog.error("Failed to check the input devices", err)
+    }
+  }
+
+  private initializeAudioRecorder() {
+    if (!this.localMediaStream) {
+      throw new Error("No local media stream")
+    }
+
+    for (const source of ["user", "assistant", "mixed"] as const) {
+      this.emitter.dispatchTypedEvent(
+        "recordedAudioChanged",
+        new RecordedAudioChangedEvent([], source),
+      )
+    }
+    this.audioRecorder = new AudioRecorder(
+      this.recordedAudioChunkDuration,
+      (source, chunks) => {
+        this.emitter.dispatchTypedEvent(
+          "recordedAudioChanged",
+          new RecordedAudioChangedEvent(chunks, source),
+        )
+      },
     )
+    this.audioRecorder.setStream("user", this.localMediaStream)
   }
 
-  private async initializeSession() {
-    if (!this.peerConnection) {
-      throw new Error("No peer connection")
+  private async initializeTransport(signal?: AbortSignal) {
+    if (!this.localMediaStream) {
+      throw new Error("No local media stream")
     }
-    const offer = await this.peerConnection.createOffer()
-    await this.peerConnection.setLocalDescription(offer)
 
     let apiKey: string
     try {
@@ -227,59 +548,171 @@ export class RealtimeClient {
     if (!apiKey) {
       throw new Error("getRealtimeEphemeralAPIKey did not return an API key.")
     }
-
-    const sdpResponse = await fetch(`${this.baseUrl}?model=${this.model}`, {
-      method: "POST",
-      body: offer.sdp,
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/sdp",
+    signal?.throwIfAborted()
+
+    await this.transport.connect({
+      apiKey,
+      model: this.model,
+      baseUrl: this.baseUrl,
+      localMediaStream: this.localMediaStream,
+      onServerEvent: this.receiveServerEvent.bind(this),
+      onRemoteStream: (stream) => {
+        // Set up to play remote audio from the model
+        this.audioLevelMonitor?.setOutputStream(stream)
+        this.audioRecorder?.setStream("assistant", stream)
+        this.audioElement.srcObject = stream
+        this.audioElement.autoplay = true
+        if (this.webAudioOutput) {
+          // NOTE: Chrome doesn't deliver a remote WebRTC stream to Web Audio unless it is also attached to a media element, so the element stays attached but muted
+          this.audioElement.muted = true
+          this.webAudioOutput.setStream(stream).catch((err) => {
+            this.clientLog.error(
+              "Failed to play the model's audio with Web Audio",
+              err,
+            )
+          })
+        } else {
+          this.audioElement.muted = false
+        }
       },
+      onStateChange: this.handleTransportStateChange.bind(this),
+      signal,
+      logger: this.logger,
     })
-
-    const answer: RTCSessionDescriptionInit = {
-      type: "answer",
-      sdp: await sdpResponse.text(),
-    }
-
-    await this.peerConnection.setRemoteDescription(answer)
+    // the server's audio_start_ms/audio_end_ms are relative to the start of the session's audio
+    this.sessionAudioStartMs = this.audioRecorder?.elapsedMs ?? 0
   }
 
-  private async initializeDataChannel(): Promise<void> {
-    if (!this.peerConnection) {
-      throw new Error("No peer connection")
+  private handleTransportStateChange(
+    transportState: RealtimeTransportState,
+    error?: unknown,
+  ) {
+    if (this.state !== "connected" && this.state !== "reconnecting") {
+      // start() and stop() manage the state until the connection is established
+      return
     }
+    switch (transportState) {
+      case "connected":
+        if (this.reconnectInProgress) {
+          // reconnect() sets the state once the new session is ready
+          break
+        }
+        this.setState("connected")
+        break
+      case "disconnected":
+        this.setState("reconnecting")
+        break
+      case "closed":
+      case "failed":
+        if (this.autoReconnect) {
+          this.clientLog.warn(
+            `The connection ${transportState}, reconnecting`,
+            error,
+          )
+          this.setState("reconnecting")
+          if (!this.reconnectInProgress) {
+            void this.reconnect(error)
+          }
+          break
+        }
+        this.clientLog.error(`The connection ${transportState}`, error)
+        this.release()
+        this.setState(transportState, error)
+        break
+    }
+  }
 
-    const dataChannel = this.peerConnection.createDataChannel("oai-events")
-
-    // we will let the caller resolve when the dataChannel is opened
-    const dataChannelOpenedPromise = new Promise<void>((resolve) => {
-      dataChannel.addEventListener("open", () => {
-        log.debug("Data channel open")
-        resolve()
-      })
-    })
-
-    this.dataChannel = dataChannel
-
-    // Listen for server-sent events on the data channel
-    this.dataChannel.addEventListener(
-      "message",
-      this.receiveServerMessage.bind(this),
-    )
-    this.dataChannel.addEventListener("error", (e) => {
-      log.error("Data channel error from server: %o", e.error)
-    })
+  /**
+   * Re-establishes a failed connection with a new session, backing off between attempts. The microphone and recording are kept.
+   */
+  private async reconnect(error: unknown) {
+    this.reconnectInProgress = true
+    let lastError = error
+    try {
+      for (let attempt = 1; attempt <= this.reconnectMaxAttempts; attempt++) {
+        const delay = Math.min(
+          this.reconnectInitialDelay * 2 ** (attempt - 1),
+          this.reconnectMaxDelay,
+        )
+        await new Promise((resolve) => setTimeout(resolve, delay))
+        if (this.state !== "reconnecting") {
+          // stopped while waiting
+          return
+        }
 
-    return dataChannelOpenedPromise
+        this.clientLog.info(
+          `Reconnecting (attempt ${attempt} of ${this.reconnectMaxAttempts})`,
+        )
+        this.transport.close()
+        this.endSession()
+        try {
+          await this.initializeTransport()
+        } catch (err) {
+          this.clientLog.warn(`Reconnect attempt ${attempt} failed`, err)
+          lastError = err
+          continue
+        }
+        if (this.state !== "reconnecting") {
+          // stopped while connecting
+          return
+        }
+        this.setState("connected")
+        try {
+          await this.resumeSession()
+        } catch (err) {
+          // e.g. the new connection dropped while the conversation was replayed
+          this.clientLog.warn(
+            `Failed to resume the session after reconnect attempt ${attempt}`,
+            err,
+          )
+          lastError = err
+          // the state may have changed while resuming
+          const state = this.state as RealtimeConnectionState
+          if (state !== "connected" && state !== "reconnecting") {
+            // stopped while resuming
+            return
+          }
+          this.setState("reconnecting")
+          continue
+        }
+        return
+      }
+      this.clientLog.error(
+        `Failed to reconnect after ${this.reconnectMaxAttempts} attempts`,
+        lastError,
+      )
+      this.release()
+      this.setState("failed", lastError)
+    } finally {
+      this.reconnectInProgress = false
+    }
   }
 
   public async stop(): Promise<void> {
-    if (this.mediaRecorder && this.mediaRecorder.state !== "inactive") {
-      this.mediaRecorder.stop()
-    }
+    this.setState("closing")
+    this.release()
+    this.setState("closed")
+  }
+
+  /**
+   * Releases the microphone, the model's audio, and the connection.
+   */
+  private release() {
+    // the recordings remain available until the next start
+    this.audioRecorder?.stop()
+    this.navigator.mediaDevices.removeEventListener(
+      "devicechange",
+      this.handleDeviceChange,
+    )
     if (this.localMediaStream) {
-      this.localMediaStream.getTracks().forEach((track) => track.stop())
+      if (this.ownsLocalMediaStream) {
+        this.localMediaStream.getTracks().forEach((track) => track.stop())
+      } else {
+        // give the caller's tracks back as they were, since muting disables them
+        this.localMediaStream
+          .getAudioTracks()
+          .forEach((track) => (track.enabled = true))
+      }
       this.localMediaStream = undefined
     }
     if (this.audioElement) {
@@ -287,268 +720,144 @@ export class RealtimeClient {
       this.audioElement.muted = true
       this.audioElement.srcObject = null
     }
-    if (this.dataChannel) {
-      this.dataChannel.close()
-      this.dataChannel = undefined
+    if (this.webAudioOutput) {
+      this.webAudioOutput.close()
+      this.webAudioOutput = undefined
     }
-    if (this.peerConnection) {
-      this.peerConnection.close()
-      this.peerConnection = undefined
-    }
-    if (this.session) {
-      this.session = undefined
-      this.emitter.dispatchTypedEvent(
-        "sessionUpdated",
-        new SessionUpdatedEvent(this.session),
-      )
+    if (this.audioLevelMonitor) {
+      this.audioLevelMonitor.close()
+      this.audioLevelMonitor = undefined
     }
+    this.transport.close()
+    this.endSession()
   }
 
-  /**
-   * Internal handler for server events from OpenAI Realtime API.
-   */
-  private receiveServerMessage(e: MessageEvent<any>) {
-    const parsedEvent = JSON.parse(e.data) as RealtimeServerEvent
-
-    this.processServerEvent(parsedEvent)
-
-    this.emitter.dispatchTypedEvent(
-      "serverEvent",
-      new RealtimeServerEventEvent(parsedEvent),
-    )
+  protected transmitClientEvent(event: RealtimeClientEvent): void {
+    this.transport.sendClientEvent(event)
   }
 
-  private processServerEvent(event: RealtimeServerEvent) {
-    const handler = RealtimeClient.privateServerEventHandlers[
-      event.type
-    ] as RealtimeServerEventHandler<(typeof event)["type"]>
-    if (handler) {
-      handler(this, event)
+  protected receiveServerEvent(event: RealtimeServerEvent): void {
+    if (
+      this.truncateOnInterruption &&
+      event.type === "input_audio_buffer.speech_started"
+    ) {
+      this.truncateInterruptedAudio()
     }
-  }
-
-  public sendClientEvent(event: any): void {
-    if (!this.dataChannel) {
-      throw new Error("Data channel not initialized")
+    if (event.type === "input_audio_buffer.speech_started") {
+      this.itemAudioSegments.set(event.item_id, {
+        startMs: this.sessionAudioStartMs + event.audio_start_ms,
+      })
+    } else if (event.type === "input_audio_buffer.speech_stopped") {
+      const segment = this.itemAudioSegments.get(event.item_id)
+      if (segment) {
+        segment.endMs = this.sessionAudioStartMs + event.audio_end_ms
+      }
+    } else if (event.type === "input_audio_buffer.committed") {
+      if (
+        this.pendingTurnSegment &&
+        !this.itemAudioSegments.has(event.item_id)
+      ) {
+        this.itemAudioSegments.set(event.item_id, this.pendingTurnSegment)
+      }
+      this.pendingTurnSegment = undefined
     }
-    this.dataChannel.send(JSON.stringify(event))
+    super.receiveServerEvent(event)
   }
 
   /**
-   * Returns the current hydrated conversation accumulated from the server events received from the Realtime API.
+   * Truncates the model's audio that is playing to the point the user heard.
    */
-  public getConversation(): RealtimeConversationItem[] {
-    return this.conversation
+  private truncateInterruptedAudio() {
+    const position = this.transport.getPlaybackPosition()
+    if (!position) {
+      // the model isn't speaking
+      return
+    }
+    // the playback position is estimated, so it may be past the end of the audio
+    const audioDuration = this.getItemAudioDuration(position.itemId)
+    const playedMs =
+      audioDuration === undefined
+        ? position.playedMs
+        : Math.min(position.playedMs, Math.floor(audioDuration))
+    this.clientLog.debug(
+      `Truncating item ${position.itemId} at ${playedMs}ms after interruption`,
+    )
+    this.truncateItem(position.itemId, playedMs, position.contentIndex)
   }
 
   /**
    * Indicates if recorded audio is available via @see getRecordedAudio.
+   * @param source The recording to check. Defaults to the user's audio.
    * @returns true if there is recorded audio available, false otherwise.
    */
-  public hasRecordedAudioAvailable(): boolean {
-    return this.audioChunks.length > 0
+  public hasRecordedAudioAvailable(
+    source: RecordedAudioSource = "user",
+  ): boolean {
+    return this.audioRecorder?.hasRecording(source) ?? false
   }
 
   /**
    * Gets the recorded audio as a Blob.
+   * @param source The recording to get: the user's audio, the model's audio, or a stereo mix of the two with the user on the left channel and the model on the right. Defaults to the user's audio.
    * @returns Promise that resolves with the audio Blob or null if no audio was recorded
    */
-  public async getRecordedAudio(): Promise<Blob | null> {
-    if (this.audioChunks.length === 0) {
-      return null
-    }
-    // TODO: is this always the correct type? don't we need to check the source stream?
-    return new Blob(this.audioChunks, { type: "audio/webm" })
+  public async getRecordedAudio({
+    source = "user",
+  }: { source?: RecordedAudioSource } = {}): Promise<Blob | null> {
+    return this.audioRecorder?.getRecording(source) ?? null
   }
 
-  private static privateServerEventHandlers: Partial<RealtimeServerEventTypeToHandlerMap> =
-    {
-      error: (_, event) => {
-        const errorEvent = event as RealtimeServerEventError
-        log.error("Error event from server: %o", errorEvent)
-      },
-      "session.created": (client, event) => {
-        // when a conversation is created, set the conversation state:
-        const sessionEvent = event as RealtimeServerEventSessionCreated
-
-        client.session = sessionEvent.session
-        client.emitter.dispatchTypedEvent(
-          "sessionCreated",
-          new SessionCreatedEvent(sessionEvent.session),
-        )
-      },
-      "session.updated": (client, event) => {
-        const sessionEvent = event as RealtimeServerEventSessionUpdated
-        client.session = sessionEvent.session
-        client.emitter.dispatchTypedEvent(
-          "sessionUpdated",
-          new SessionUpdatedEvent(sessionEvent.session),
-        )
-      },
-      "conversation.item.created": (client, event) => {
-        const conversationEvent =
-          event as RealtimeServerEventConversationItemCreated
-        client.conversation.push(conversationEvent.item)
-        client.emitter.dispatchTypedEvent(
-          "conversationChanged",
-          new ConversationChangedEvent(client.conversation),
-        )
-      },
-      "response.audio_transcript.delta": (client, event) => {
-        const deltaEvent =
-          event as RealtimeServerEventResponseAudioTranscriptDelta
-        const { foundContent, foundItem } = findConversationItemContent(
-          { log },
-          client.conversation,
-          deltaEvent.item_id,
-          deltaEvent.content_index,
-          deltaEvent,
-        )
-        if (!foundItem) {
-          // error was logged in findConversationItemContent
-          return
-        }
-        if (!foundContent) {
-          if (!foundItem.content) {
-            foundItem.content = []
-          }
-          foundItem.content.push({
-            type: "input_audio",
-            transcript: deltaEvent.delta,
-          })
-        } else {
-          if (foundContent.type !== "input_audio") {
-            log.error(
-              `${event.type} Unexpected content type ${foundContent.type} for audio transcript`,
-            )
-            return
-          }
-          foundContent.transcript += deltaEvent.delta
-        }
-        client.emitter.dispatchTypedEvent(
-          "conversationChanged",
-          new ConversationChangedEvent(client.conversation),
-        )
-      },
-      "response.text.delta": (client, event) => {
-        // TODO: Need to handle event to support text streaming text events (these are only for the input items where the input itself is text and not audio).
-      },
-      "response.done": (client, event) => {
-        const responseEvent = event as RealtimeServerEventResponseDone
-
-        // https://platform.openai.com/docs/api-reference/realtime-server-events/response/done
-        // for each response content item, find the conversation item patch it up:
-        const response = responseEvent.response
-        if (!response.output) {
-          log.error("No output in response.done")
-          return
-        }
-        for (const output of response.output) {
-          if (output.type != "message") {
-            // function?
-            log.error(`Unexpected output type ${output.type} in response.done`)
-            continue
-          }
-          if (!output.content) {
-            log.error("No content in output in response.done")
-            continue
-          }
-          const conversationItem = findConversationItem(
-            { log },
-            client.conversation,
-            output.id!,
-            event,
-          )
-          if (!conversationItem) {
-            // TODO: findConversationItem already logged an error, we should probably pass in a value that tells it not to log
-            // no existing item is there, for some reason maybe we missed it in the stream somehow? We'll just add it:
-            client.conversation.push(output)
-            client.emitter.dispatchTypedEvent(
-              "conversationChanged",
-              new ConversationChangedEvent(client.conversation),
-            )
-            continue
-          }
-          // TODO: we probably need to handle this better. Probably we need to overwrite the existing item with this new one since it is now "done".
-          // patch up the conversation item with the provided output:
-          if (!conversationItem.content) {
-            conversationItem.content = []
-          }
-          for (const outputItem of output.content) {
-            conversationItem.content.push(outputItem)
-          }
-          // force update the conversation state:
-          client.emitter.dispatchTypedEvent(
-            "conversationChanged",
-            new ConversationChangedEvent(client.conversation),
-          )
-        }
-      },
-      "response.audio_transcript.done": (client, event) => {
-        patchConversationItemWithCompletedTranscript(
-          { log },
-          client.conversation,
-          event as RealtimeServerEventResponseAudioTranscriptDone,
-        )
-        client.emitter.dispatchTypedEvent(
-          "conversationChanged",
-          new ConversationChangedEvent(client.conversation),
-        )
-      },
-      "conversation.item.input_audio_transcription.completed": (
-        client,
-        event,
-      ) => {
-        patchConversationItemWithCompletedTranscript(
-          { log },
-          client.conversation,
-          event,
-        )
-        client.emitter.dispatchTypedEvent(
-          "conversationChanged",
-          new ConversationChangedEvent(client.conversation),
-        )
-      },
-    }
-}
-
-type RealtimeServerEventHandler<
-  TRealtimeServerEventType extends
-    RealtimeServerEvent["type"] = RealtimeServerEvent["type"],
-> = (
-  client: RealtimeClient,
-  event: Extract<RealtimeServerEvent, { type: TRealtimeServerEventType }>,
-) => void
-
-type RealtimeServerEventNames = RealtimeServerEvent["type"]
+  /**
+   * The type of the recorded audio (e.g. `audio/webm;codecs=opus` or `audio/mp4`), which depends on what the browser supports.
+   * @param source The recording. Defaults to the user's audio.
+   * @returns The type, or undefined if the client hasn't been started.
+   */
+  public getRecordedAudioMimeType(
+    source: RecordedAudioSource = "user",
+  ): string | undefined {
+    return this.audioRecorder?.getMimeType(source)
+  }
 
-type RealtimeServerEventTypeToHandlerMap = {
-  [K in RealtimeServerEventNames]: RealtimeServerEventHandler<K>
-}
+  /**
+   * Gets the recorded audio as a 16-bit PCM WAV file (e.g. for transcription tools that don't support compressed audio).
+   * @param source The recording to get. See @see getRecordedAudio.
+   * @param sampleRate The sample rate of the WAV file. Defaults to 24kHz, the rate of the Realtime API's `pcm16` format.
+   * @returns Promise that resolves with the WAV Blob or null if no audio was recorded
+   */
+  public async getRecordedAudioAsWav({
+    source = "user",
+    sampleRate = PCM16_SAMPLE_RATE,
+  }: {
+    source?: RecordedAudioSource
+    sampleRate?: number
+  } = {}): Promise<Blob | null> {
+    const buffer = await this.audioRecorder?.decode(source, sampleRate)
+    return buffer ? audioBufferToWav(buffer) : null
+  }
 
-/**
- * If the two values are objects, and one has a property that is null or
- * undefined and the other either does not have that property or the
- * property is null or undefined, then the property will be considered equal.
- * If the value is not an object, a normal deep-equal operation is done.
- */
-function compareValuesIgnoreNullProperties(valueA: any, valueB: any): boolean {
-  if (
-    typeof valueA === "object" &&
-    typeof valueB === "object" &&
-    valueA &&
-    valueB
-  ) {
-    for (const key in valueB) {
-      if (valueB[key] == null) {
-        // if session has null/undefined property, ignore it if request doesn't have it or is also null/undefined
-        if (!(key in valueA) || valueA[key] == null) continue
-        return false
-      }
-      if (!compareValuesIgnoreNullProperties(valueA[key], valueB[key]))
-        return false
+  /**
+   * Gets the user's speech for a user item in the conversation (@see getConversation) as a 16-bit PCM WAV file, e.g. to replay an individual utterance.
+   * The speech is located with the server's voice activity detection (or the turn in push-to-talk mode), so only items for the user's spoken input have audio, and the clip's boundaries are approximate.
+   * @param itemId The id of the conversation item.
+   * @param sampleRate The sample rate of the WAV file. Defaults to 24kHz, the rate of the Realtime API's `pcm16` format.
+   * @returns Promise that resolves with the WAV Blob or null if there is no audio for the item.
+   */
+  public async getItemAudio(
+    itemId: string,
+    { sampleRate = PCM16_SAMPLE_RATE }: { sampleRate?: number } = {},
+  ): Promise<Blob | null> {
+    const segment = this.itemAudioSegments.get(itemId)
+    if (!segment || !this.audioRecorder) {
+      return null
     }
-    return true
+    // while the user is still speaking the clip ends with what was recorded so far
+    const endMs = segment.endMs ?? this.audioRecorder.elapsedMs
+    const buffer = await this.audioRecorder.decodeClip(
+      "user",
+      sampleRate,
+      segment.startMs,
+      endMs,
+    )
+    return buffer ? audioBufferToWav(buffer) : null
   }
-  return isEqual(valueA, valueB)
 }
@@ -0,0 +1,102 @@
+import type { Logger } from "../log"
+import type { RealtimeClientEvent, RealtimeServerEvent } from "../openai"
+
+/**
+ * The options provided by @see RealtimeClient when it connects a @see RealtimeTransport.
+ */
+export interface RealtimeTransportConnectOptions {
+  /**
+   * The ephemeral API key used to authenticate with the Realtime API.
+   */
+  apiKey: string
+  /**
+   * The model to use for the Realtime API.
+   */
+  model: string
+  /**
+   * The base URL for the Realtime API.
+   */
+  baseUrl: string
+  /**
+   * The local audio (i.e. the microphone) that is sent to the model.
+   */
+  localMediaStream: MediaStream
+  /**
+   * Called for each event received from the server.
+   */
+  onServerEvent: (event: RealtimeServerEvent) => void
+  /**
+   * Called when the audio stream from the model is available to be played.
+   */
+  onRemoteStream: (stream: MediaStream) => void
+  /**
+   * Called when the state of an established connection changes (e.g. it is interrupted or lost). It is not called as a result of @see RealtimeTransport.close.
+   * @param error The error that caused the change, if any.
+   */
+  onStateChange: (state: RealtimeTransportState, error?: unknown) => void
+  /**
+   * Aborts connecting. When aborted, connect rejects with the signal's reason.
+   */
+  signal?: AbortSignal
+  /**
+   * The client's logger. The transport namespaces it for its own messages.
+   */
+  logger: Logger
+}
+
+/**
+ * The state of a transport's connection after it has connected.
+ * - `connected`: The connection is working.
+ * - `disconnected`: The connection was interrupted, but may recover on its own.
+ * - `closed`: The server closed the connection.
+ * - `failed`: The connection was lost due to an error.
+ */
+export type RealtimeTransportState =
+  "connected" | "disconnected" | "closed" | "failed"
+
+/**
+ * The position of the model's audio that is currently playing.
+ */
+export interface RealtimePlaybackPosition {
+  /**
+   * The ID of the assistant message item whose audio is playing.
+   */
+  itemId: string
+  /**
+   * The index of the audio content part in the item.
+   */
+  contentIndex: number
+  /**
+   * How much of the item's audio has been played, in milliseconds.
+   */
+  playedMs: number
+}
+
+/**
+ * The connection between @see RealtimeClient and the OpenAI Realtime API.
+ * A transport delivers client events and local audio to the server, and delivers server events and the model's audio back to the client.
+ */
+export interface RealtimeTransport {
+  /**
+   * Connects to the Realtime API.
+   * @returns A promise that resolves once it is safe to send client events.
+   */
+  connect(options: RealtimeTransportConnectOptions): Promise<void>
+  /**
+   * Sends a client event to the server.
+   */
+  sendClientEvent(event: RealtimeClientEvent): void
+  /**
+   * Replaces the local audio track that is sent to the model (e.g. to switch to another microphone) without renegotiating the connection.
+   */
+  replaceInputTrack(track: MediaStreamTrack): Promise<void>
+  /**
+   * Returns the position of the model's audio that is currently playing, or undefined if no audio is playing.
+   * This is used to truncate the audio that the user didn't hear when they interrupt the model.
+   */
+  getPlaybackPosition(): RealtimePlaybackPosition | undefined
+  /**
+   * Closes the connection and releases any resources held by the transport. It is safe to call this more than once.
+   */
+  close(): void
+}
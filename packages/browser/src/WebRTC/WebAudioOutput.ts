@@ -0,0 +1,56 @@
+// NOTE: AudioContext.setSinkId isn't in TypeScript's DOM types yet. See https://developer.mozilla.org/en-US/docs/Web/API/AudioContext/setSinkId
+type AudioContextWithSinkId = AudioContext & {
+  setSinkId?: (sinkId: string) => Promise<void>
+}
+
+/**
+ * Plays the model's audio through a Web Audio graph: source -> gain -> analyser -> speakers.
+ * The graph lives as long as the session, so the nodes stay valid when the remote stream is replaced (e.g. after reconnecting).
+ */
+export class WebAudioOutput {
+  private readonly audioContext: AudioContextWithSinkId
+  private source: MediaStreamAudioSourceNode | undefined = undefined
+  /**
+   * Controls the volume of the model's audio (e.g. to duck it).
+   */
+  public readonly gain: GainNode
+  /**
+   * Analyses the model's audio (e.g. for visualizations).
+   */
+  public readonly analyser: AnalyserNode
+
+  constructor() {
+    this.audioContext = new AudioContext()
+    this.gain = this.audioContext.createGain()
+    this.analyser = this.audioContext.createAnalyser()
+    this.gain.connect(this.analyser)
+    this.analyser.connect(this.audioContext.destination)
+  }
+
+  /**
+   * Plays the given stream, replacing the stream that was playing.
+   */
+  async setStream(stream: MediaStream): Promise<void> {
+    this.source?.disconnect()
+    this.source = this.audioContext.createMediaStreamSource(stream)
+    this.source.connect(this.gain)
+    await this.audioContext.resume()
+  }
+
+  /**
+   * Plays the audio on the specified output device.
+   * @param sinkId The id of the audio output device (from `navigator.mediaDevices.enumerateDevices()`).
+   */
+  async setSinkId(sinkId: string): Promise<void> {
+    if (!this.audioContext.setSinkId) {
+      throw new Error("This browser doesn't support AudioContext.setSinkId")
+    }
+    await this.audioContext.setSinkId(sinkId)
+  }
+
+  close(): void {
+    this.source?.disconnect()
+    this.source = undefined
+    void this.audioContext.close()
+  }
+}
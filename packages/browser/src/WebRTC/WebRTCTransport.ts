@@ -0,0 +1,502 @@
+import { secondsToMilliseconds } from "../duration"
+import type {
+  OpenAIErrorResponse,
+  RealtimeClientEvent,
+  RealtimeServerEvent,
+  RealtimeServerEventResponseContentPartAdded,
+} from "../openai"
+import type {
+  RealtimePlaybackPosition,
+  RealtimeTransport,
+  RealtimeTransportConnectOptions,
+} from "./RealtimeTransport"
+import { namespaceLogger, type Logger } from "../log"
+import {
+  RealtimeAuthError,
+  RealtimeNegotiationError,
+  RealtimeRateLimitError,
+} from "./errors"
+
+interface WebRTCTransportOptions {
+  /**
+   * The duration in milliseconds to wait for the SDP answer before the request fails.
+   */
+  sdpRequestTimeout: number
+  /**
+   * The number of times to retry the SDP offer when it fails due to a network error, a timeout, rate limiting, or a server error.
+   */
+  sdpRequestMaxRetries: number
+  /**
+   * The delay in milliseconds before retrying the SDP offer. The delay is doubled for each subsequent retry. When rate limited, the server's `Retry-After` is used instead.
+   */
+  sdpRequestRetryDelay: number
+  /**
+   * The duration in milliseconds to wait for the data channel to open after the SDP answer is received before connecting fails.
+   */
+  connectTimeout: number
+}
+
+const WebRTCTransportDefaultOptions: WebRTCTransportOptions = {
+  sdpRequestTimeout: secondsToMilliseconds(10),
+  sdpRequestMaxRetries: 2,
+  sdpRequestRetryDelay: secondsToMilliseconds(1),
+  connectTimeout: secondsToMilliseconds(15),
+}
+
+/**
+ * A @see RealtimeTransport that uses a WebRTC peer connection. Audio is exchanged as media tracks and events are exchanged over the `oai-events` data channel.
+ * See https://platform.openai.com/docs/guides/realtime-webrtc
+ */
+export class WebRTCTransport implements RealtimeTransport {
+  private log: Logger = console
+  private peerConnection: RTCPeerConnection | undefined = undefined
+  private dataChannel: RTCDataChannel | undefined = undefined
+  private audioSender: RTCRtpSender | undefined = undefined
+  // Aborted in close() to remove the data channel's listeners so closing doesn't report a state change
+  private listenersController: AbortController | undefined = undefined
+  // The item whose audio is streaming from the server and when it started (from performance.now()).
+  private playingItem:
+    | {
+        itemId: string
+        contentIndex: number
+        startedAt: number
+      }
+    | undefined = undefined
+  private readonly sdpRequestTimeout: number
+  private readonly sdpRequestMaxRetries: number
+  private readonly sdpRequestRetryDelay: number
+  private readonly connectTimeout: number
+
+  constructor(
+    options: Partial<WebRTCTransportOptions> = WebRTCTransportDefaultOptions,
+  ) {
+    const opt = { ...WebRTCTransportDefaultOptions, ...options }
+    this.sdpRequestTimeout = opt.sdpRequestTimeout
+    this.sdpRequestMaxRetries = opt.sdpRequestMaxRetries
+    this.sdpRequestRetryDelay = opt.sdpRequestRetryDelay
+    this.connectTimeout = opt.connectTimeout
+  }
+
+  async connect(options: RealtimeTransportConnectOptions): Promise<void> {
+    this.log = namespaceLogger(options.logger, "realtime:webrtc")
+    try {
+      this.initializePeerConnection(options)
+    } catch (err) {
+      this.log.error("Failed to initialize peer connection", err)
+      throw err
+    }
+
+    // Create a data channel from a peer connection
+    let dataChannelOpenedPromise: Promise<void>
+    try {
+      //  this promise will resolve when the channel is open and it's safe to send client events. It must be opened by the server after we initialize the channel with the SDP
+      dataChannelOpenedPromise = this.initializeDataChannel(options)
+      // it may reject while the session is initialized below, before it is awaited
+      dataChannelOpenedPromise.catch(() => {})
+    } catch (err) {
+      this.log.error("Failed to initialize data channel", err)
+      throw err
+    }
+
+    try {
+      // Start the session using the Session Description Protocol (SDP)
+      await this.initializeSession(options)
+    } catch (err) {
+      this.log.error("Failed to initialize session", err)
+      throw err
+    }
+
+    // await data channel open so that clientEvents can be sent before we continue or return
+    const signals = [AbortSignal.timeout(this.connectTimeout)]
+    if (options.signal) {
+      signals.push(options.signal)
+    }
+    try {
+      await Promise.race([
+        dataChannelOpenedPromise,
+        rejectWhenAborted(AbortSignal.any(signals)),
+      ])
+    } catch (err) {
+      this.log.error("Failed to await data channel open", err)
+      if (
+        !options.signal?.aborted &&
+        err instanceof DOMException &&
+        err.name === "TimeoutError"
+      ) {
+        throw new RealtimeNegotiationError(
+          `Timed out after ${this.connectTimeout}ms waiting for the data channel to open`,
+          undefined,
+          undefined,
+          { cause: err },
+        )
+      }
+      throw err
+    }
+  }
+
+  private initializePeerConnection(options: RealtimeTransportConnectOptions) {
+    this.peerConnection = new RTCPeerConnection()
+
+    // Set up to play remote audio from the model
+    this.peerConnection.ontrack = (e) => {
+      options.onRemoteStream(e.streams[0])
+    }
+
+    const peerConnection = this.peerConnection
+    peerConnection.onconnectionstatechange = () => {
+      this.log.debug(`Peer connection state: ${peerConnection.connectionState}`)
+      switch (peerConnection.connectionState) {
+        case "connected":
+          options.onStateChange("connected")
+          break
+        case "disconnected":
+          // ICE may recover from this on its own
+          options.onStateChange("disconnected")
+          break
+        case "failed":
+          options.onStateChange(
+            "failed",
+            new Error("The peer connection failed"),
+          )
+          break
+        case "closed":
+          options.onStateChange("closed")
+          break
+      }
+    }
+
+    // Add local audio track for microphone input in the browser (a stream from the caller may also have video, e.g. a screen share):
+    const track = options.localMediaStream.getAudioTracks()[0]
+    if (!track) {
+      throw new Error("The input stream has no audio track")
+    }
+    this.audioSender = this.peerConnection.addTrack(track)
+  }
+
+  private async initializeSession(options: RealtimeTransportConnectOptions) {
+    if (!this.peerConnection) {
+      throw new Error("No peer connection")
+    }
+    const offer = await this.peerConnection.createOffer()
+    await this.peerConnection.setLocalDescription(offer)
+
+    const answer: RTCSessionDescriptionInit = {
+      type: "answer",
+      sdp: await this.postOffer(options, offer.sdp),
+    }
+
+    await this.peerConnection.setRemoteDescription(answer)
+  }
+
+  /**
+   * Sends the SDP offer to the Realtime API, retrying failures that may be temporary.
+   * @returns The SDP answer.
+   */
+  private async postOffer(
+    options: RealtimeTransportConnectOptions,
+    offerSdp: string | undefined,
+  ): Promise<string> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.sendOffer(options, offerSdp)
+      } catch (err) {
+        if (
+          attempt >= this.sdpRequestMaxRetries ||
+          !isRetryable(err) ||
+          options.signal?.aborted
+        ) {
+          throw err
+        }
+        const delay =
+          err instanceof RealtimeRateLimitError && err.retryAfter !== undefined
+            ? err.retryAfter
+            : this.sdpRequestRetryDelay * 2 ** attempt
+        this.log.warn(`SDP offer failed, retrying in ${delay}ms`, err)
+        await sleep(delay, options.signal)
+      }
+    }
+  }
+
+  private async sendOffer(
+    options: RealtimeTransportConnectOptions,
+    offerSdp: string | undefined,
+  ): Promise<string> {
+    const signals = [AbortSignal.timeout(this.sdpRequestTimeout)]
+    if (options.signal) {
+      signals.push(options.signal)
+    }
+
+    let sdpResponse: Response
+    let body: string
+    try {
+      sdpResponse = await fetch(`${options.baseUrl}?model=${options.model}`, {
+        method: "POST",
+        body: offerSdp,
+        headers: {
+          Authorization: `Bearer ${options.apiKey}`,
+          "Content-Type": "application/sdp",
+        },
+        signal: AbortSignal.any(signals),
+      })
+      body = await sdpResponse.text()
+    } catch (err) {
+      if (options.signal?.aborted) {
+        // the caller aborted, so this isn't a negotiation failure
+        throw err
+      }
+      const message =
+        err instanceof DOMException && err.name === "TimeoutError"
+          ? `Timed out after ${this.sdpRequestTimeout}ms waiting for the SDP answer`
+          : "Failed to send the SDP offer"
+      throw new RealtimeNegotiationError(message, undefined, undefined, {
+        cause: err,
+      })
+    }
+
+    if (!sdpResponse.ok) {
+      throw negotiationErrorFromResponse(sdpResponse, body)
+    }
+    return body
+  }
+
+  private initializeDataChannel(
+    options: RealtimeTransportConnectOptions,
+  ): Promise<void> {
+    if (!this.peerConnection) {
+      throw new Error("No peer connection")
+    }
+
+    const peerConnection = this.peerConnection
+    const dataChannel = peerConnection.createDataChannel("oai-events")
+    this.listenersController = new AbortController()
+    const { signal } = this.listenersController
+
+    // we will let the caller resolve when the dataChannel is opened; once it is open, rejecting has no effect
+    const dataChannelOpenedPromise = new Promise<void>((resolve, reject) => {
+      dataChannel.addEventListener(
+        "open",
+        () => {
+          this.log.debug("Data channel open")
+          resolve()
+        },
+        { signal },
+      )
+      dataChannel.addEventListener("error", (e) => reject(e.error), { signal })
+      dataChannel.addEventListener(
+        "close",
+        () => reject(new Error("The data channel closed before it was opened")),
+        { signal },
+      )
+      peerConnection.addEventListener(
+        "connectionstatechange",
+        () => {
+          if (
+            peerConnection.connectionState === "failed" ||
+            peerConnection.connectionState === "closed"
+          ) {
+            reject(
+              new Error(
+                `The peer connection ${peerConnection.connectionState} before the data channel was opened`,
+              ),
+            )
+          }
+        },
+        { signal },
+      )
+      // close() aborts the listeners, e.g. when the client is stopped while connecting
+      signal.addEventListener(
+        "abort",
+        () => reject(new Error("The transport was closed while connecting")),
+        { once: true },
+      )
+    })
+
+    this.dataChannel = dataChannel
+
+    // Listen for server-sent events on the data channel
+    this.dataChannel.addEventListener(
+      "message",
+      (e) => {
+        const parsedEvent = JSON.parse(e.data) as RealtimeServerEvent
+        options.onServerEvent(parsedEvent)
+        this.trackPlayback(parsedEvent)
+      },
+      { signal },
+    )
+    this.dataChannel.addEventListener(
+      "error",
+      (e) => {
+        this.log.error("Data channel error from server: %o", e.error)
+        options.onStateChange("failed", e.error)
+      },
+      { signal },
+    )
+    this.dataChannel.addEventListener(
+      "close",
+      () => {
+        // the server closed the channel; when we close it in close() the listener is removed first
+        this.log.debug("Data channel closed")
+        options.onStateChange("closed")
+      },
+      { signal },
+    )
+
+    return dataChannelOpenedPromise
+  }
+
+  /**
+   * Tracks which item's audio is playing. The server streams the audio over the peer connection in realtime, so the time since the item's audio started is a close estimate of how much has been played.
+   */
+  private trackPlayback(event: RealtimeServerEvent) {
+    if (event.type === "response.content_part.added") {
+      const partEvent = event as RealtimeServerEventResponseContentPartAdded
+      if (partEvent.part.type === "audio") {
+        this.playingItem = {
+          itemId: partEvent.item_id,
+          contentIndex: partEvent.content_index,
+          startedAt: performance.now(),
+        }
+      }
+    } else if (event.type === "input_audio_buffer.speech_started") {
+      // the server stops streaming the audio when the user interrupts
+      this.playingItem = undefined
+    } else if (
+      (event.type as string) === "output_audio_buffer.stopped" ||
+      (event.type as string) === "output_audio_buffer.cleared"
+    ) {
+      // NOTE: response.audio.done is sent when the model is done generating the audio, while the rest of it is still streaming to the user, so the position is kept until it is done playing. These WebRTC-only events aren't in OpenAI's OpenAPI types.
+      this.playingItem = undefined
+    }
+  }
+
+  async replaceInputTrack(track: MediaStreamTrack): Promise<void> {
+    if (!this.audioSender) {
+      throw new Error("No audio sender")
+    }
+    await this.audioSender.replaceTrack(track)
+  }
+
+  getPlaybackPosition(): RealtimePlaybackPosition | undefined {
+    if (!this.playingItem) {
+      return undefined
+    }
+    return {
+      itemId: this.playingItem.itemId,
+      contentIndex: this.playingItem.contentIndex,
+      playedMs: Math.floor(performance.now() - this.playingItem.startedAt),
+    }
+  }
+
+  sendClientEvent(event: RealtimeClientEvent): void {
+    if (!this.dataChannel) {
+      throw new Error("Data channel not initialized")
+    }
+    this.dataChannel.send(JSON.stringify(event))
+  }
+
+  close(): void {
+    this.playingItem = undefined
+    if (this.listenersController) {
+      this.listenersController.abort()
+      this.listenersController = undefined
+    }
+    if (this.dataChannel) {
+      this.dataChannel.close()
+      this.dataChannel = undefined
+    }
+    this.audioSender = undefined
+    if (this.peerConnection) {
+      this.peerConnection.onconnectionstatechange = null
+      this.peerConnection.close()
+      this.peerConnection = undefined
+    }
+  }
+}
+
+/**
+ * Creates the error for an unsuccessful response to the SDP offer.
+ */
+function negotiationErrorFromResponse(
+  response: Response,
+  body: string,
+): RealtimeNegotiationError {
+  let errorBody: OpenAIErrorResponse | undefined = undefined
+  try {
+    const parsed = JSON.parse(body)
+    if (parsed?.error?.message) {
+      errorBody = parsed as OpenAIErrorResponse
+    }
+  } catch {
+    // not JSON; the body is included in the message below
+  }
+  const message = `SDP offer failed with HTTP ${response.status}: ${errorBody?.error.message ?? (body || response.statusText)}`
+
+  if (response.status === 401 || response.status === 403) {
+    return new RealtimeAuthError(message, response.status, errorBody)
+  }
+  if (response.status === 429) {
+    return new RealtimeRateLimitError(
+      message,
+      errorBody,
+      parseRetryAfter(response.headers.get("Retry-After")),
+    )
+  }
+  return new RealtimeNegotiationError(message, response.status, errorBody)
+}
+
+/**
+ * Parses a `Retry-After` header, which is either a number of seconds or an HTTP date, to milliseconds.
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined
+  }
+  const seconds = Number(value)
+  if (!isNaN(seconds)) {
+    return secondsToMilliseconds(seconds)
+  }
+  const date = Date.parse(value)
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now())
+  }
+  return undefined
+}
+
+/**
+ * Network errors, timeouts, rate limits, and server errors may succeed if the request is retried.
+ */
+function isRetryable(err: unknown): boolean {
+  if (!(err instanceof RealtimeNegotiationError)) {
+    return false
+  }
+  return err.status === undefined || err.status === 429 || err.status >= 500
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(resolve, ms)
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timeout)
+        reject(signal.reason)
+      },
+      { once: true },
+    )
+  })
+}
+
+/**
+ * Returns a promise that rejects with the signal's reason when it is aborted, or never settles if there is no signal.
+ */
+function rejectWhenAborted(signal: AbortSignal | undefined): Promise<never> {
+  return new Promise((_, reject) => {
+    if (!signal) {
+      return
+    }
+    signal.throwIfAborted()
+    signal.addEventListener("abort", () => reject(signal.reason), {
+      once: true,
+    })
+  })
+}
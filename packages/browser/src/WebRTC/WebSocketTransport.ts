@@ -0,0 +1,377 @@
+import type {
+  RealtimeClientEvent,
+  RealtimeServerEvent,
+  RealtimeServerEventResponseAudioDelta,
+} from "../openai"
+import {
+  PCM16_SAMPLE_RATE,
+  base64ToPcm16,
+  float32ToPcm16,
+  pcm16ToBase64,
+  pcm16ToFloat32,
+} from "../pcm16"
+import type {
+  RealtimePlaybackPosition,
+  RealtimeTransport,
+  RealtimeTransportConnectOptions,
+} from "./RealtimeTransport"
+import { namespaceLogger, type Logger } from "../log"
+
+const CAPTURE_PROCESSOR_NAME = "tsorta-pcm-capture"
+
+/**
+ * An AudioWorkletProcessor that posts each block of microphone samples back to the main thread.
+ * It is loaded from a Blob URL so that consumers of the package don't need to host a separate worklet file.
+ */
+const CAPTURE_PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0]
+    if (channel) {
+      this.port.postMessage(channel.slice(0))
+    }
+    return true
+  }
+}
+registerProcessor("${CAPTURE_PROCESSOR_NAME}", PcmCaptureProcessor)
+`
+
+interface WebSocketTransportOptions {
+  /**
+   * The duration in milliseconds of microphone audio to buffer before sending it in an `input_audio_buffer.append` event.
+   */
+  inputAudioChunkDuration: number
+}
+
+const WebSocketTransportDefaultOptions: WebSocketTransportOptions = {
+  inputAudioChunkDuration: 100,
+}
+
+/**
+ * A @see RealtimeTransport that uses a WebSocket. Events are exchanged as JSON messages on the socket. Microphone audio is sent as PCM16 in `input_audio_buffer.append` events and the model's audio is received from `response.audio.delta` events.
+ * See https://platform.openai.com/docs/guides/realtime-websocket
+ * NOTE: The session must use the (default) `pcm16` input and output audio formats.
+ */
+export class WebSocketTransport implements RealtimeTransport {
+  private log: Logger = console
+  private socket: WebSocket | undefined = undefined
+  // Aborted in close() to remove the socket's listeners so closing doesn't report a state change
+  private listenersController: AbortController | undefined = undefined
+  private audioContext: AudioContext | undefined = undefined
+  private captureNode: AudioWorkletNode | undefined = undefined
+  private inputSource: MediaStreamAudioSourceNode | undefined = undefined
+  private outputNode: MediaStreamAudioDestinationNode | undefined = undefined
+  private capturedSamples: Float32Array[] = []
+  private capturedSampleCount = 0
+  // The audioContext time at which the next chunk of model audio should start playing.
+  private nextPlaybackTime = 0
+  private playingSources: AudioBufferSourceNode[] = []
+  // The item whose audio is scheduled for playback and when it starts (in audioContext time).
+  private playingItem:
+    | {
+        itemId: string
+        contentIndex: number
+        startTime: number
+        duration: number
+      }
+    | undefined = undefined
+  private readonly inputAudioChunkDuration: number
+
+  constructor(
+    options: Partial<WebSocketTransportOptions> = WebSocketTransportDefaultOptions,
+  ) {
+    const opt = { ...WebSocketTransportDefaultOptions, ...options }
+    this.inputAudioChunkDuration = opt.inputAudioChunkDuration
+  }
+
+  async connect(options: RealtimeTransportConnectOptions): Promise<void> {
+    this.log = namespaceLogger(options.logger, "realtime:websocket")
+    try {
+      await this.initializeSocket(options)
+    } catch (err) {
+      this.log.error("Failed to open WebSocket", err)
+      throw err
+    }
+    options.signal?.throwIfAborted()
+
+    try {
+      await this.initializeAudio(options)
+    } catch (err) {
+      this.log.error("Failed to initialize audio", err)
+      throw err
+    }
+  }
+
+  private initializeSocket(
+    options: RealtimeTransportConnectOptions,
+  ): Promise<void> {
+    const url = new URL(options.baseUrl)
+    url.protocol = url.protocol.replace(/^http/, "ws")
+    url.searchParams.set("model", options.model)
+
+    // Browsers can't set an Authorization header on a WebSocket, so the key is provided as a subprotocol. See https://platform.openai.com/docs/guides/realtime-websocket
+    const socket = new WebSocket(url, [
+      "realtime",
+      `openai-insecure-api-key.${options.apiKey}`,
+      "openai-beta.realtime-v1",
+    ])
+    this.socket = socket
+    this.listenersController = new AbortController()
+    const { signal } = this.listenersController
+
+    socket.addEventListener(
+      "message",
+      (e) => {
+        const parsedEvent = JSON.parse(e.data) as RealtimeServerEvent
+        // the client is notified first so that it can get the playback position before playback is stopped when the user interrupts
+        options.onServerEvent(parsedEvent)
+        this.handleServerEvent(parsedEvent)
+      },
+      { signal },
+    )
+
+    let opened = false
+    return new Promise<void>((resolve, reject) => {
+      options.signal?.addEventListener(
+        "abort",
+        () => reject(options.signal?.reason),
+        { signal },
+      )
+      // close() aborts the listeners, e.g. when the client is stopped while connecting
+      signal.addEventListener(
+        "abort",
+        () => reject(new Error("The transport was closed while connecting")),
+        { once: true },
+      )
+      socket.addEventListener(
+        "open",
+        () => {
+          this.log.debug("WebSocket open")
+          opened = true
+          resolve()
+        },
+        { signal },
+      )
+      socket.addEventListener(
+        "error",
+        () => {
+          // NOTE: the error event has no details; they're only on the close event
+          this.log.error("WebSocket error")
+        },
+        { signal },
+      )
+      socket.addEventListener(
+        "close",
+        (e) => {
+          if (!opened) {
+            reject(
+              new Error(
+                `WebSocket closed before it was opened (code ${e.code}): ${e.reason}`,
+              ),
+            )
+            return
+          }
+          // the server closed the socket; when we close it in close() the listener is removed first
+          this.log.debug(`WebSocket closed (code ${e.code}): ${e.reason}`)
+          if (e.wasClean) {
+            options.onStateChange("closed")
+          } else {
+            options.onStateChange(
+              "failed",
+              new Error(
+                `WebSocket closed unexpectedly (code ${e.code}): ${e.reason}`,
+              ),
+            )
+          }
+        },
+        { signal },
+      )
+    })
+  }
+
+  private async initializeAudio(options: RealtimeTransportConnectOptions) {
+    this.audioContext = new AudioContext({ sampleRate: PCM16_SAMPLE_RATE })
+    await this.audioContext.resume()
+
+    // output: model audio is scheduled into a MediaStream so the client can play it like a WebRTC remote track
+    this.outputNode = this.audioContext.createMediaStreamDestination()
+    this.nextPlaybackTime = 0
+    options.onRemoteStream(this.outputNode.stream)
+
+    // input: capture the microphone as PCM16 at the session's sample rate
+    const workletUrl = URL.createObjectURL(
+      new Blob([CAPTURE_PROCESSOR_SOURCE], { type: "application/javascript" }),
+    )
+    try {
+      await this.audioContext.audioWorklet.addModule(workletUrl)
+    } finally {
+      URL.revokeObjectURL(workletUrl)
+    }
+    this.captureNode = new AudioWorkletNode(
+      this.audioContext,
+      CAPTURE_PROCESSOR_NAME,
+    )
+    this.capturedSamples = []
+    this.capturedSampleCount = 0
+    this.captureNode.port.onmessage = (e: MessageEvent<Float32Array>) => {
+      this.captureSamples(e.data)
+    }
+    this.inputSource = this.audioContext.createMediaStreamSource(
+      options.localMediaStream,
+    )
+    this.inputSource.connect(this.captureNode)
+  }
+
+  /**
+   * Buffers microphone samples and sends them to the server once there is at least inputAudioChunkDuration of audio.
+   */
+  private captureSamples(samples: Float32Array) {
+    this.capturedSamples.push(samples)
+    this.capturedSampleCount += samples.length
+
+    const chunkSampleCount =
+      (PCM16_SAMPLE_RATE * this.inputAudioChunkDuration) / 1000
+    if (this.capturedSampleCount < chunkSampleCount) {
+      return
+    }
+    const chunk = new Float32Array(this.capturedSampleCount)
+    let offset = 0
+    for (const captured of this.capturedSamples) {
+      chunk.set(captured, offset)
+      offset += captured.length
+    }
+    this.capturedSamples = []
+    this.capturedSampleCount = 0
+
+    if (this.socket?.readyState !== WebSocket.OPEN) {
+      return
+    }
+    this.sendClientEvent({
+      type: "input_audio_buffer.append",
+      audio: pcm16ToBase64(float32ToPcm16(chunk)),
+    })
+  }
+
+  private handleServerEvent(event: RealtimeServerEvent) {
+    if (event.type === "response.audio.delta") {
+      this.playAudioDelta(event as RealtimeServerEventResponseAudioDelta)
+    } else if (event.type === "input_audio_buffer.speech_started") {
+      // the user started talking; stop any model audio that hasn't been heard yet. The server does this for us with WebRTC.
+      this.stopPlayback()
+    }
+  }
+
+  private playAudioDelta(event: RealtimeServerEventResponseAudioDelta) {
+    if (!this.audioContext || !this.outputNode) {
+      return
+    }
+    const samples = pcm16ToFloat32(base64ToPcm16(event.delta))
+    if (samples.length === 0) {
+      return
+    }
+    const buffer = this.audioContext.createBuffer(
+      1,
+      samples.length,
+      PCM16_SAMPLE_RATE,
+    )
+    buffer.copyToChannel(samples, 0)
+
+    const source = this.audioContext.createBufferSource()
+    source.buffer = buffer
+    source.connect(this.outputNode)
+    source.addEventListener("ended", () => {
+      this.playingSources = this.playingSources.filter((s) => s !== source)
+    })
+
+    const startTime = Math.max(
+      this.audioContext.currentTime,
+      this.nextPlaybackTime,
+    )
+    source.start(startTime)
+    this.nextPlaybackTime = startTime + buffer.duration
+    this.playingSources.push(source)
+
+    if (
+      this.playingItem?.itemId !== event.item_id ||
+      this.playingItem.contentIndex !== event.content_index
+    ) {
+      this.playingItem = {
+        itemId: event.item_id,
+        contentIndex: event.content_index,
+        startTime,
+        duration: 0,
+      }
+    }
+    this.playingItem.duration += buffer.duration
+  }
+
+  private stopPlayback() {
+    for (const source of this.playingSources) {
+      source.stop()
+    }
+    this.playingSources = []
+    this.nextPlaybackTime = 0
+    this.playingItem = undefined
+  }
+
+  async replaceInputTrack(track: MediaStreamTrack): Promise<void> {
+    if (!this.audioContext || !this.captureNode) {
+      throw new Error("Audio not initialized")
+    }
+    this.inputSource?.disconnect()
+    this.inputSource = this.audioContext.createMediaStreamSource(
+      new MediaStream([track]),
+    )
+    this.inputSource.connect(this.captureNode)
+  }
+
+  getPlaybackPosition(): RealtimePlaybackPosition | undefined {
+    if (!this.playingItem || !this.audioContext) {
+      return undefined
+    }
+    const { itemId, contentIndex, startTime, duration } = this.playingItem
+    const played = Math.max(0, this.audioContext.currentTime - startTime)
+    if (played >= duration) {
+      // all of the audio received has been played
+      return undefined
+    }
+    return {
+      itemId,
+      contentIndex,
+      playedMs: Math.floor(played * 1000),
+    }
+  }
+
+  sendClientEvent(event: RealtimeClientEvent): void {
+    if (!this.socket) {
+      throw new Error("WebSocket not initialized")
+    }
+    this.socket.send(JSON.stringify(event))
+  }
+
+  close(): void {
+    this.stopPlayback()
+    if (this.inputSource) {
+      this.inputSource.disconnect()
+      this.inputSource = undefined
+    }
+    if (this.captureNode) {
+      this.captureNode.port.onmessage = null
+      this.captureNode.disconnect()
+      this.captureNode = undefined
+    }
+    this.outputNode = undefined
+    if (this.audioContext) {
+      this.audioContext.close()
+      this.audioContext = undefined
+    }
+    if (this.listenersController) {
+      this.listenersController.abort()
+      this.listenersController = undefined
+    }
+    if (this.socket) {
+      this.socket.close()
+      this.socket = undefined
+    }
+  }
+}
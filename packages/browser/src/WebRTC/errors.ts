@@ -0,0 +1,54 @@
+import type { OpenAIErrorResponse } from "../openai"
+
+/**
+ * The SDP offer/answer exchange with the Realtime API failed, so the session could not be started.
+ * See https://platform.openai.com/docs/guides/realtime-webrtc
+ */
+export class RealtimeNegotiationError extends Error {
+  constructor(
+    message: string,
+    /**
+     * The HTTP status of the response, or undefined if no response was received (e.g. a network error or timeout).
+     */
+    public readonly status: number | undefined,
+    /**
+     * The error returned by the OpenAI API, if the response body was an OpenAI error.
+     */
+    public readonly body: OpenAIErrorResponse | undefined,
+    options?: ErrorOptions,
+  ) {
+    super(message, options)
+    this.name = "RealtimeNegotiationError"
+  }
+}
+
+/**
+ * The Realtime API rejected the API key (HTTP 401 or 403). The ephemeral key may have expired.
+ */
+export class RealtimeAuthError extends RealtimeNegotiationError {
+  constructor(
+    message: string,
+    status: number,
+    body: OpenAIErrorResponse | undefined,
+  ) {
+    super(message, status, body)
+    this.name = "RealtimeAuthError"
+  }
+}
+
+/**
+ * The Realtime API rate limited the request (HTTP 429).
+ */
+export class RealtimeRateLimitError extends RealtimeNegotiationError {
+  constructor(
+    message: string,
+    body: OpenAIErrorResponse | undefined,
+    /**
+     * The number of milliseconds the server asked to wait before retrying, from the `Retry-After` header.
+     */
+    public readonly retryAfter: number | undefined,
+  ) {
+    super(message, 429, body)
+    this.name = "RealtimeRateLimitError"
+  }
+}
@@ -1,94 +1,80 @@
-import { Simplify } from "type-fest"
-import type {
-  RealtimeServerEvent,
-  RealtimeConversationItem,
-  RealtimeSession,
-} from "../openai"
-
-// Add this index signature allows the key to be string
-// & {
-//   /**
-//    * Emitted for each of the specified Realtime Server event type.
-//    */
-//   [EventType in RealtimeServerEvent["type"]]: RealtimeServerEventEvent<
-//     RealtimeServerEventTypeMap[EventType]
-//   >
-// }
-type RealtimeClientEventNames = keyof RealtimeClientEventMap
-type RealtimeClientEventObjects =
-  RealtimeClientEventMap[RealtimeClientEventNames]
-
-class BaseEvent<
-  TType extends keyof RealtimeClientEventMap | RealtimeServerEvent["type"],
-> extends Event {
-  constructor(public readonly type: TType) {
-    super(type)
-  }
-}
-
-export class RealtimeServerEventEvent<
-  T extends RealtimeServerEvent = RealtimeServerEvent,
-> extends BaseEvent<"serverEvent"> {
-  constructor(public readonly event: T) {
-    super("serverEvent")
-  }
-}
-
-export class ConversationChangedEvent extends BaseEvent<"conversationChanged"> {
-  constructor(public readonly conversation: RealtimeConversationItem[]) {
-    super("conversationChanged")
-    this.conversation = conversation
-  }
-}
+import type { Simplify } from "type-fest"
+import { BaseEvent, RealtimeClientEventMap } from "../core"
+import type { RecordedAudioSource } from "./AudioRecorder"
 
 export class RecordedAudioChangedEvent extends BaseEvent<"recordedAudioChanged"> {
-  constructor(public readonly recordedAudioChunks: Blob[]) {
+  constructor(
+    public readonly recordedAudioChunks: Blob[],
+    /**
+     * The recording that changed.
+     */
+    public readonly source: RecordedAudioSource,
+  ) {
     super("recordedAudioChanged")
   }
 }
 
-export class SessionUpdatedEvent extends BaseEvent<"sessionUpdated"> {
-  constructor(public readonly session: RealtimeSession | undefined) {
-    super("sessionUpdated")
+export class InputDeviceLostEvent extends BaseEvent<"inputDeviceLost"> {
+  constructor(
+    /**
+     * The id of the microphone that was disconnected.
+     */
+    public readonly deviceId: string | undefined,
+  ) {
+    super("inputDeviceLost")
   }
 }
 
-export class SessionCreatedEvent extends BaseEvent<"sessionCreated"> {
-  constructor(public readonly session: RealtimeSession) {
-    super("sessionCreated")
+export class InputLevelEvent extends BaseEvent<"inputLevel"> {
+  constructor(
+    /**
+     * The RMS level of the user's audio in dBFS. See @see AudioLevel.
+     */
+    public readonly rms: number,
+    /**
+     * The peak level of the user's audio in dBFS.
+     */
+    public readonly peak: number,
+  ) {
+    super("inputLevel")
   }
 }
 
-export interface EventTargetListener<
-  TEvent extends RealtimeClientEventObjects,
-> {
-  (evt: TEvent): void
+export class OutputLevelEvent extends BaseEvent<"outputLevel"> {
+  constructor(
+    /**
+     * The RMS level of the model's audio in dBFS. See @see AudioLevel.
+     */
+    public readonly rms: number,
+    /**
+     * The peak level of the model's audio in dBFS.
+     */
+    public readonly peak: number,
+  ) {
+    super("outputLevel")
+  }
 }
+
 /**
- * Used to map the each event name to its corresponding Event type.
+ * Used to map the each event name of the browser @see RealtimeClient to its corresponding Event type.
  */
-
-export type RealtimeClientEventMap = Simplify<{
-  /**
-   * Emitted for all of the Realtime Server events.
-   */
-  serverEvent: RealtimeServerEventEvent<RealtimeServerEvent>
-  /**
-   * Emitted when the session starts
-   */
-  sessionCreated: SessionCreatedEvent
-  /**
-   * Emitted when the session is updated.
-   */
-  sessionUpdated: SessionUpdatedEvent
-  /**
-   * Emitted when the conversation changes
-   * @param event
-   * @returns
-   */
-  conversationChanged: ConversationChangedEvent
-  /**
-   * Emitted when the recorded audio changes.
-   */
-  recordedAudioChanged: RecordedAudioChangedEvent
-}>
+export type RealtimeBrowserClientEventMap = Simplify<
+  RealtimeClientEventMap & {
+    /**
+     * Emitted when the recorded audio changes. It is emitted separately for each recording (see the event's source).
+     */
+    recordedAudioChanged: RecordedAudioChangedEvent
+    /**
+     * Emitted when the microphone in use is disconnected. Use @see RealtimeClient.switchInputDevice to continue with another microphone.
+     */
+    inputDeviceLost: InputDeviceLostEvent
+    /**
+     * Emitted at the audioLevelInterval with the level of the user's audio.
+     */
+    inputLevel: InputLevelEvent
+    /**
+     * Emitted at the audioLevelInterval with the level of the model's audio, once it is available.
+     */
+    outputLevel: OutputLevelEvent
+  }
+>
@@ -1 +1,18 @@
 export { RealtimeClient } from "./RealtimeClient"
+export type { RealtimeClientStartOptions } from "./RealtimeClient"
+export {
+  RealtimeAuthError,
+  RealtimeNegotiationError,
+  RealtimeRateLimitError,
+} from "./errors"
+export type {
+  RealtimePlaybackPosition,
+  RealtimeTransport,
+  RealtimeTransportConnectOptions,
+  RealtimeTransportState,
+} from "./RealtimeTransport"
+export type { AudioLevel } from "./AudioLevelMonitor"
+export type { RecordedAudioSource } from "./AudioRecorder"
+export { IndexedDBConversationStore } from "./IndexedDBConversationStore"
+export { WebRTCTransport } from "./WebRTCTransport"
+export { WebSocketTransport } from "./WebSocketTransport"
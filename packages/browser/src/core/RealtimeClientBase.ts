@@ -0,0 +1,959 @@
+import type {
+  RealtimeClientEvent,
+  RealtimeConversationItem,
+  RealtimeConversationItemContent,
+  RealtimeServerEvent,
+  RealtimeServerEventError,
+  RealtimeServerEventResponseDone,
+  RealtimeServerEventResponseFunctionCallArgumentsDone,
+  RealtimeServerEventSessionCreated,
+  RealtimeServerEventSessionUpdated,
+  RealtimeResponse,
+  RealtimeResponseCreateParams,
+  RealtimeSession,
+  RealtimeSessionCreateRequest,
+} from "../openai/index.js"
+import {
+  initialConversationState,
+  reduceConversation,
+  type RealtimeConversationState,
+} from "./conversation.js"
+import { TypedEventTarget } from "typescript-event-target"
+import {
+  RealtimeServerEventEvent,
+  SessionCreatedEvent,
+  SessionUpdatedEvent,
+  ServerErrorEvent,
+  ConversationChangedEvent,
+  ConnectionStateChangedEvent,
+  ItemAddedEvent,
+  ItemCompletedEvent,
+  ItemDeletedEvent,
+  ItemTruncatedEvent,
+  ItemUpdatedEvent,
+  EventTargetListener,
+  RealtimeClientEventMap,
+  RealtimeConnectionState,
+} from "./events.js"
+import { isEqual } from "lodash-es"
+import type { RealtimeTool } from "./tools.js"
+import { generateConversationId, generateEventId } from "./ids.js"
+import type { ConversationStore } from "./store.js"
+import { RealtimeServerError } from "./errors.js"
+import { secondsToMilliseconds } from "../duration.js"
+import {
+  createLogger,
+  defaultLogLevel,
+  namespaceLogger,
+  type Logger,
+  type LogLevel,
+} from "../log.js"
+
+const DEFAULT_UPDATE_SESSION_TIMEOUT = secondsToMilliseconds(10)
+
+// The number of recently sent client events kept to find the client event that caused an error
+const MAX_SENT_CLIENT_EVENTS = 100
+
+// The key of the response metadata used to find the response created by createResponse
+const CLIENT_EVENT_ID_METADATA_KEY = "client_event_id"
+
+interface PendingSessionUpdate {
+  request: RealtimeSessionCreateRequest
+  resolve: (session: RealtimeSession) => void
+  reject: (err: Error) => void
+  timeout: ReturnType<typeof setTimeout>
+}
+
+/**
+ * The options shared by the Realtime API clients for each environment.
+ */
+export interface RealtimeClientBaseOptions {
+  /**
+   * The logger that the client's messages are written to. Defaults to the console.
+   */
+  logger?: Logger
+  /**
+   * The minimum level of the messages that are logged. Defaults to `silent` in production builds (i.e. NODE_ENV is "production") and `debug` otherwise.
+   */
+  logLevel?: LogLevel
+  /**
+   * Where the conversation is saved as it changes, so it can be restored in a later session with the `restoreFrom` option of `start`.
+   */
+  conversationStore?: ConversationStore
+}
+
+interface PendingResponse {
+  resolve: (response: RealtimeResponse) => void
+  reject: (err: Error) => void
+}
+
+/**
+ * The protocol and conversation state shared by the Realtime API clients for each environment (e.g. the browser and Node.js).
+ * Subclasses are responsible for the connection to the server: they deliver client events in @see transmitClientEvent and pass each server event they receive to @see receiveServerEvent.
+ */
+export abstract class RealtimeClientBase<
+  TEventMap extends RealtimeClientEventMap & Record<keyof TEventMap, Event> =
+    RealtimeClientEventMap,
+> {
+  private connectionState: RealtimeConnectionState = "idle"
+  private conversation: RealtimeConversationState = initialConversationState
+  // Session as received from the server in create/update
+  private session: RealtimeSession | undefined = undefined
+  // The fields of all the session.update events sent, so the configuration can be re-applied to a new session. See resumeSession.
+  private requestedSession: RealtimeSessionCreateRequest = {}
+  private tools = new Map<string, RealtimeTool>()
+  // The tool calls in progress for each response, keyed by response id
+  private pendingToolCalls = new Map<string, Promise<void>[]>()
+  // The event ids of the session.update events sent that the server hasn't responded to yet, in the order they were sent
+  private sessionUpdateEventIds: string[] = []
+  // The session.update events sent with updateSession, keyed by event id
+  private pendingSessionUpdates = new Map<string, PendingSessionUpdate>()
+  // The response.create events sent with createResponse, keyed by event id
+  private pendingResponses = new Map<string, PendingResponse>()
+  // The most recently sent client events, keyed by event id
+  private sentClientEvents = new Map<string, RealtimeClientEvent>()
+  private readonly conversationStore: ConversationStore | undefined
+  private currentConversationId: string | undefined = undefined
+  // The conversation is saved in order, one snapshot at a time
+  private savingConversation: Promise<void> = Promise.resolve()
+  // The latest snapshot of each conversation that is waiting to be saved, so changes made while saving (e.g. streamed deltas) are saved together
+  private unsavedConversations = new Map<string, RealtimeConversationItem[]>()
+  // The logger for the client's messages, filtered by the logLevel option. Subclasses namespace it for their own messages.
+  protected readonly logger: Logger
+  // The client's own messages, in the realtime:client namespace. Subclasses log their messages about the client here too.
+  protected readonly clientLog: Logger
+  private readonly itemsLog: Logger
+
+  // NOTE: We use EventTarget rather than EventEmitter because EventTarget is standardized in the Browser and has one in Node.js (https://nodejs.org/api/events.html#class-eventtarget). I'm also not extending EventTarget as I don't wan't to expose the full EventTarget (untyped) interface at this time. We may consider exposing it in the future
+  protected readonly emitter = new TypedEventTarget<TEventMap>()
+
+  constructor(options: RealtimeClientBaseOptions = {}) {
+    this.logger = createLogger(
+      options.logger ?? console,
+      options.logLevel ?? defaultLogLevel(),
+    )
+    this.clientLog = namespaceLogger(this.logger, "realtime:client")
+    this.itemsLog = namespaceLogger(this.logger, "realtime:items")
+    this.conversationStore = options.conversationStore
+  }
+
+  /**
+   * Adds an event listener for the specified event.
+   * NOTE: This is compatible with the DOM @see EventTarget.addEventListener method, but more strictly typed.
+   */
+  public addEventListener<TEventName extends keyof TEventMap & string>(
+    event: TEventName,
+    listener: EventTargetListener<TEventMap[TEventName]>,
+  ): void {
+    this.emitter.addEventListener(event, listener)
+  }
+
+  /**
+   * The state of the connection to the server. The `connectionStateChanged` event is emitted when it changes.
+   */
+  public get state(): RealtimeConnectionState {
+    return this.connectionState
+  }
+
+  /**
+   * Sets the state of the connection and emits `connectionStateChanged` if it changed.
+   * @param error The error that caused the change, if any.
+   */
+  protected setState(state: RealtimeConnectionState, error?: unknown): void {
+    const previousState = this.connectionState
+    if (state === previousState) {
+      return
+    }
+    this.connectionState = state
+    this.clientLog.debug(
+      `Connection state changed from ${previousState} to ${state}`,
+    )
+    this.dispatchClientEvent(
+      "connectionStateChanged",
+      new ConnectionStateChangedEvent(state, previousState, error),
+    )
+  }
+
+  /**
+   * Sends a client event to the server. An `event_id` is generated for the event if it doesn't have one.
+   * @returns The `event_id` of the event that was sent.
+   */
+  public sendClientEvent(event: RealtimeClientEvent): string {
+    const event_id = event.event_id ?? generateEventId()
+    this.transmitClientEvent({ ...event, event_id })
+    this.sentClientEvents.set(event_id, { ...event, event_id })
+    if (this.sentClientEvents.size > MAX_SENT_CLIENT_EVENTS) {
+      // Maps iterate in insertion order, so this is the oldest:
+      const [oldest] = this.sentClientEvents.keys()
+      this.sentClientEvents.delete(oldest)
+    }
+    if (event.type === "session.update") {
+      // the server responds to each session.update with a session.updated in order
+      this.sessionUpdateEventIds.push(event_id)
+      this.requestedSession = { ...this.requestedSession, ...event.session }
+    }
+    return event_id
+  }
+
+  /**
+   * Delivers a client event to the server over the subclass's connection.
+   */
+  protected abstract transmitClientEvent(event: RealtimeClientEvent): void
+
+  /**
+   * Updates the session's configuration with a `session.update` event.
+   * @param session The fields of the session to update. Fields that are not specified are not changed.
+   * @param timeout The duration in milliseconds to wait for the server to confirm the update.
+   * @returns A promise that resolves with the updated session once the server confirms that the requested fields were applied. It rejects if the server responds with an error, the fields were not applied, or the timeout elapses.
+   */
+  public updateSession(
+    session: RealtimeSessionCreateRequest,
+    timeout: number = DEFAULT_UPDATE_SESSION_TIMEOUT,
+  ): Promise<RealtimeSession> {
+    return new Promise<RealtimeSession>((resolve, reject) => {
+      const event_id = this.sendClientEvent({ type: "session.update", session })
+      this.pendingSessionUpdates.set(event_id, {
+        request: session,
+        resolve,
+        reject,
+        timeout: setTimeout(() => {
+          // NOTE: the event id stays in sessionUpdateEventIds so later session.updated events are still matched correctly
+          this.pendingSessionUpdates.delete(event_id)
+          reject(
+            new Error(
+              `Timed out after ${timeout}ms waiting for session.updated in response to session.update ${event_id}`,
+            ),
+          )
+        }, timeout),
+      })
+    })
+  }
+
+  /**
+   * Settles the @see updateSession promise for the session.update that this session.updated event responds to.
+   */
+  private confirmSessionUpdate(session: RealtimeSession) {
+    const event_id = this.sessionUpdateEventIds.shift()
+    const pending = event_id && this.pendingSessionUpdates.get(event_id)
+    if (!pending) {
+      return
+    }
+    this.pendingSessionUpdates.delete(event_id)
+    clearTimeout(pending.timeout)
+    if (compareValuesIgnoreNullProperties(session, pending.request)) {
+      pending.resolve(session)
+    } else {
+      pending.reject(
+        new Error(
+          `The session was updated, but not all of the requested fields were applied. Requested: ${JSON.stringify(pending.request)}. Session: ${JSON.stringify(session)}`,
+        ),
+      )
+    }
+  }
+
+  /**
+   * Rejects the @see createResponse promise for the response.create that caused this error, if any.
+   */
+  private failResponse(event: RealtimeServerEventError) {
+    const event_id = event.error.event_id
+    const pending = event_id && this.pendingResponses.get(event_id)
+    if (!pending) {
+      return
+    }
+    this.pendingResponses.delete(event_id)
+    pending.reject(
+      new RealtimeServerError(event, this.sentClientEvents.get(event_id)),
+    )
+  }
+
+  /**
+   * Resolves the @see createResponse promise for the response.create that created this response, if any.
+   */
+  private completeResponse(response: RealtimeResponse) {
+    const event_id = response.metadata?.[CLIENT_EVENT_ID_METADATA_KEY]
+    const pending = event_id && this.pendingResponses.get(event_id)
+    if (!pending) {
+      return
+    }
+    this.pendingResponses.delete(event_id)
+    pending.resolve(response)
+  }
+
+  /**
+   * Rejects the @see updateSession promise for the session.update that caused this error, if any.
+   */
+  private failSessionUpdate(event: RealtimeServerEventError) {
+    const event_id = event.error.event_id
+    if (!event_id || !this.sessionUpdateEventIds.includes(event_id)) {
+      return
+    }
+    // the server won't send a session.updated for the failed update:
+    this.sessionUpdateEventIds = this.sessionUpdateEventIds.filter(
+      (id) => id !== event_id,
+    )
+    const pending = this.pendingSessionUpdates.get(event_id)
+    if (!pending) {
+      return
+    }
+    this.pendingSessionUpdates.delete(event_id)
+    clearTimeout(pending.timeout)
+    pending.reject(
+      new RealtimeServerError(event, this.sentClientEvents.get(event_id)),
+    )
+  }
+
+  /**
+   * Adds a user message with the given text to the conversation and asks the model to respond to it.
+   * @returns A promise that resolves with the model's response once it is done. See @see createResponse.
+   */
+  public sendText(text: string): Promise<RealtimeResponse> {
+    this.sendClientEvent({
+      type: "conversation.item.create",
+      item: {
+        type: "message",
+        role: "user",
+        content: [{ type: "input_text", text }],
+      },
+    })
+    return this.createResponse()
+  }
+
+  /**
+   * Asks the model to create a response. This is only needed when server VAD is disabled or to respond to items added by the client.
+   * NOTE: The response's metadata includes a `client_event_id` key to identify the response created by this request.
+   * @param params Overrides the session's configuration for this response only.
+   * @returns A promise that resolves with the response once it is done (check its `status`). It rejects if the server responds to the request with an error or the session ends first. It's safe not to await it.
+   */
+  public createResponse(
+    params?: RealtimeResponseCreateParams,
+  ): Promise<RealtimeResponse> {
+    const response = new Promise<RealtimeResponse>((resolve, reject) => {
+      const event_id = generateEventId()
+      this.pendingResponses.set(event_id, { resolve, reject })
+      this.sendClientEvent({
+        type: "response.create",
+        event_id,
+        response: {
+          ...params,
+          metadata: {
+            ...params?.metadata,
+            [CLIENT_EVENT_ID_METADATA_KEY]: event_id,
+          },
+        },
+      })
+    })
+    // callers may not await the response (e.g. sendText), so a rejection only surfaces when it is awaited rather than as an unhandled rejection
+    response.catch(() => {})
+    return response
+  }
+
+  /**
+   * Cancels an in-progress response.
+   * @param responseId The response to cancel. Defaults to the in-progress response.
+   */
+  public cancelResponse(responseId?: string): void {
+    this.sendClientEvent({ type: "response.cancel", response_id: responseId })
+  }
+
+  /**
+   * Removes an item from the conversation.
+   */
+  public deleteItem(itemId: string): void {
+    this.sendClientEvent({ type: "conversation.item.delete", item_id: itemId })
+  }
+
+  /**
+   * Truncates the audio of an assistant message, for example, to the point where the user interrupted it.
+   * @param audioEndMs The duration of the audio, in milliseconds, to keep.
+   * @param contentIndex The index of the audio content part to truncate.
+   */
+  public truncateItem(
+    itemId: string,
+    audioEndMs: number,
+    contentIndex = 0,
+  ): void {
+    this.sendClientEvent({
+      type: "conversation.item.truncate",
+      item_id: itemId,
+      content_index: contentIndex,
+      audio_end_ms: audioEndMs,
+    })
+  }
+
+  /**
+   * Commits the input audio buffer to a new user message. This is only needed when server VAD is disabled.
+   */
+  public commitInputAudio(): void {
+    this.sendClientEvent({ type: "input_audio_buffer.commit" })
+  }
+
+  /**
+   * Discards the audio in the input audio buffer.
+   */
+  public clearInputAudio(): void {
+    this.sendClientEvent({ type: "input_audio_buffer.clear" })
+  }
+
+  /**
+   * Ends the user's turn when server VAD is disabled (i.e. `turn_detection` is null): commits the input audio buffer to a new user message and asks the model to respond to it.
+   * @returns A promise that resolves with the model's response once it is done. See @see createResponse.
+   */
+  public endTurn(): Promise<RealtimeResponse> {
+    this.commitInputAudio()
+    return this.createResponse()
+  }
+
+  /**
+   * Returns the current hydrated conversation accumulated from the server events received from the Realtime API.
+   * The returned array is a snapshot that is never modified. Each change to the conversation produces a new array (see @see reduceConversation).
+   */
+  public getConversation(): RealtimeConversationItem[] {
+    return this.conversation.items
+  }
+
+  /**
+   * Returns the duration in milliseconds of the model's audio received for an item, or undefined if its audio wasn't received as events (e.g. with WebRTC it is streamed as a media track).
+   */
+  protected getItemAudioDuration(itemId: string): number | undefined {
+    return this.conversation.audioDurations[itemId]
+  }
+
+  /**
+   * The id that the conversation is saved with in the `conversationStore`. Pass it to `start({ restoreFrom })` to continue the conversation in a later session.
+   */
+  public get conversationId(): string | undefined {
+    return this.currentConversationId
+  }
+
+  /**
+   * Registers a function that the model can call.
+   * The tool is advertised to the model in a `session.update` event. When the model calls it, the handler is invoked, its output is sent back to the model and a new response is created.
+   * Registering a tool with the same name as an existing tool replaces it.
+   */
+  public registerTool<TArgs = unknown>(tool: RealtimeTool<TArgs>): void {
+    // the handler is called with the model's arguments, which are expected to match its parameters schema
+    this.tools.set(tool.name, tool as RealtimeTool)
+    if (this.session) {
+      this.sendToolsSessionUpdate()
+    }
+  }
+
+  /**
+   * Removes a tool previously registered with @see registerTool.
+   */
+  public unregisterTool(name: string): void {
+    if (this.tools.delete(name) && this.session) {
+      this.sendToolsSessionUpdate()
+    }
+  }
+
+  private sendToolsSessionUpdate() {
+    this.updateSession({
+      tools: [...this.tools.values()].map((tool) => ({
+        type: "function",
+        name: tool.name,
+        description: tool.description,
+        // NOTE: OpenAI's OpenAPI types have a bit of a mismatch here
+        parameters: tool.parameters as Record<string, never>,
+      })),
+    }).catch((err) => {
+      this.clientLog.error("Failed to update the tools in the session", err)
+    })
+  }
+
+  /**
+   * Invokes the handler for a function call from the model and sends the output back as a `function_call_output` item.
+   */
+  private async callTool(
+    functionCall: RealtimeConversationItem | undefined,
+    event: RealtimeServerEventResponseFunctionCallArgumentsDone,
+  ): Promise<void> {
+    // the output can only be sent to the session that made the call
+    const sessionId = this.session?.id
+    const name = functionCall?.name
+    const tool = name ? this.tools.get(name) : undefined
+    let output: unknown
+    if (!tool) {
+      this.clientLog.error(
+        `No tool registered for function call ${event.call_id} to ${name}`,
+      )
+      output = { error: `The function ${name} is not available.` }
+    } else {
+      try {
+        output = await tool.handler(JSON.parse(event.arguments))
+      } catch (err) {
+        this.clientLog.error(
+          `Tool ${name} failed for function call ${event.call_id}`,
+          err,
+        )
+        output = { error: err instanceof Error ? err.message : String(err) }
+      }
+    }
+    if (!this.session || this.session.id !== sessionId) {
+      // e.g. the client was stopped or reconnected while the handler was running
+      this.clientLog.warn(
+        `The session ended before the output of function call ${event.call_id} was sent`,
+      )
+      return
+    }
+    try {
+      this.sendClientEvent({
+        type: "conversation.item.create",
+        item: {
+          type: "function_call_output",
+          call_id: event.call_id,
+          // the server requires an output, and JSON.stringify(undefined) is undefined when the handler returns nothing
+          output:
+            output === undefined
+              ? ""
+              : typeof output === "string"
+                ? output
+                : JSON.stringify(output),
+        },
+      })
+    } catch (err) {
+      this.clientLog.error(
+        `Failed to send the output of function call ${event.call_id}`,
+        err,
+      )
+    }
+  }
+
+  /**
+   * Once all of the function calls in a response have their output, asks the model to respond to them.
+   */
+  private async completeToolCalls(responseId: string): Promise<void> {
+    const toolCalls = this.pendingToolCalls.get(responseId)
+    if (!toolCalls) {
+      return
+    }
+    this.pendingToolCalls.delete(responseId)
+    await Promise.all(toolCalls)
+    if (this.session) {
+      this.createResponse().catch((err) => {
+        this.clientLog.error(
+          "Failed to create a response to the tool call outputs",
+          err,
+        )
+      })
+    }
+  }
+
+  /**
+   * Clears the conversation. Call this before starting a new session.
+   */
+  protected resetConversation(): void {
+    this.conversation = initialConversationState
+    this.pendingToolCalls.clear()
+    this.requestedSession = {}
+  }
+
+  /**
+   * Continues the conversation in a new session after reconnecting: re-applies the configuration requested with session.update and replays the conversation (see @see replayConversation) so the model keeps the context.
+   */
+  protected async resumeSession(): Promise<void> {
+    if (Object.keys(this.requestedSession).length > 0) {
+      try {
+        await this.updateSession(this.requestedSession)
+      } catch (err) {
+        this.clientLog.error(
+          "Failed to re-apply the session configuration",
+          err,
+        )
+      }
+    }
+    this.replayConversation()
+  }
+
+  /**
+   * Starts the conversation of a new session. Call this before connecting.
+   * @param restoreFrom The id of a conversation in the `conversationStore` to continue. Its items are added to the conversation and replayed to the model with @see replayConversation once connected.
+   * @throws {Error} When the conversation can't be loaded.
+   */
+  protected async initializeConversation(restoreFrom?: string): Promise<void> {
+    this.currentConversationId = restoreFrom ?? generateConversationId()
+    if (!restoreFrom) {
+      return
+    }
+    if (!this.conversationStore) {
+      throw new Error(
+        "The conversationStore option is required to restore a conversation",
+      )
+    }
+    const items = await this.conversationStore.load(restoreFrom)
+    if (!items) {
+      throw new Error(`Conversation ${restoreFrom} was not found in the store`)
+    }
+    this.conversation = { ...initialConversationState, items }
+    this.dispatchClientEvent(
+      "conversationChanged",
+      new ConversationChangedEvent(items),
+    )
+  }
+
+  /**
+   * Sends the text of the conversation's messages to the server with `conversation.item.create` so the model has the context of a conversation that started in an earlier session.
+   * NOTE: Audio can't be replayed, so the transcripts of audio messages are replayed as text.
+   */
+  protected replayConversation(): void {
+    let previous_item_id: string | undefined = undefined
+    for (const item of this.conversation.items) {
+      const replayed = replayableMessage(item)
+      if (!replayed) {
+        continue
+      }
+      // the item keeps its id so the conversation.item.created event for it is matched to the existing item
+      this.sendClientEvent({
+        type: "conversation.item.create",
+        previous_item_id,
+        item: replayed,
+      })
+      previous_item_id = replayed.id
+    }
+  }
+
+  /**
+   * Clears the session. Call this when the connection to the server is closed.
+   */
+  protected endSession(): void {
+    for (const pending of this.pendingSessionUpdates.values()) {
+      clearTimeout(pending.timeout)
+      pending.reject(new Error("The session ended before it was updated"))
+    }
+    this.pendingSessionUpdates.clear()
+    this.sessionUpdateEventIds = []
+    for (const pending of this.pendingResponses.values()) {
+      pending.reject(
+        new Error("The session ended before the response was done"),
+      )
+    }
+    this.pendingResponses.clear()
+    this.sentClientEvents.clear()
+    if (this.session) {
+      this.session = undefined
+      this.dispatchClientEvent(
+        "sessionUpdated",
+        new SessionUpdatedEvent(this.session),
+      )
+    }
+  }
+
+  /**
+   * Dispatches one of the events shared by all clients.
+   */
+  protected dispatchClientEvent<
+    TEventName extends keyof RealtimeClientEventMap,
+  >(type: TEventName, event: RealtimeClientEventMap[TEventName]): void {
+    // TEventMap always extends RealtimeClientEventMap, so every shared event is valid here:
+    const emitter = this
+      .emitter as unknown as TypedEventTarget<RealtimeClientEventMap>
+    emitter.dispatchTypedEvent(type, event)
+  }
+
+  /**
+   * Internal handler for server events from OpenAI Realtime API.
+   */
+  protected receiveServerEvent(event: RealtimeServerEvent) {
+    this.processServerEvent(event)
+
+    this.dispatchClientEvent("serverEvent", new RealtimeServerEventEvent(event))
+  }
+
+  private processServerEvent(event: RealtimeServerEvent) {
+    const conversation = reduceConversation(this.conversation, event, {
+      log: this.itemsLog,
+    })
+    const previousItems = this.conversation.items
+    this.conversation = conversation
+    if (conversation.items !== previousItems) {
+      this.dispatchClientEvent(
+        "conversationChanged",
+        new ConversationChangedEvent(conversation.items),
+      )
+    }
+    this.dispatchItemEvents(event, previousItems, conversation.items)
+    if (conversation.items !== previousItems) {
+      this.saveConversation()
+    }
+
+    const handler = RealtimeClientBase.privateServerEventHandlers[
+      event.type
+    ] as RealtimeServerEventHandler<(typeof event)["type"]>
+    if (handler) {
+      handler(this, event)
+    }
+  }
+
+  /**
+   * Saves the current conversation in the conversationStore once the earlier saves are done.
+   */
+  private saveConversation() {
+    const store = this.conversationStore
+    const conversationId = this.currentConversationId
+    if (!store || !conversationId) {
+      return
+    }
+    const alreadyQueued = this.unsavedConversations.has(conversationId)
+    this.unsavedConversations.set(conversationId, this.conversation.items)
+    if (alreadyQueued) {
+      return
+    }
+    this.savingConversation = this.savingConversation
+      .then(() => {
+        const items = this.unsavedConversations.get(conversationId)!
+        this.unsavedConversations.delete(conversationId)
+        return store.save(conversationId, items)
+      })
+      .catch((err) => {
+        this.clientLog.error(
+          `Failed to save conversation ${conversationId}`,
+          err,
+        )
+      })
+  }
+
+  /**
+   * Dispatches the events for the items that the server event added to or changed in the conversation.
+   */
+  private dispatchItemEvents(
+    event: RealtimeServerEvent,
+    previousItems: RealtimeConversationItem[],
+    items: RealtimeConversationItem[],
+  ) {
+    const eventItemId = "item_id" in event ? event.item_id : undefined
+    if (items !== previousItems) {
+      const previousItemsById = new Map(
+        previousItems.map((item) => [item.id, item]),
+      )
+      items.forEach((item, index) => {
+        const previousItem = previousItemsById.get(item.id)
+        if (!previousItem) {
+          this.dispatchClientEvent("itemAdded", new ItemAddedEvent(item, index))
+          if (isCompleteWhenAdded(item)) {
+            this.dispatchClientEvent(
+              "itemCompleted",
+              new ItemCompletedEvent(item),
+            )
+          }
+        } else if (
+          item !== previousItem &&
+          event.type !== "conversation.item.truncated"
+        ) {
+          // only the event's own item has the event's content index and delta
+          const isEventItem = item.id === eventItemId
+          this.dispatchClientEvent(
+            "itemUpdated",
+            new ItemUpdatedEvent(
+              item.id!,
+              item,
+              isEventItem && "content_index" in event
+                ? event.content_index
+                : undefined,
+              isEventItem && "delta" in event ? event.delta : undefined,
+            ),
+          )
+        }
+      })
+    }
+
+    const findItem = (itemId: string) =>
+      items.find((item) => item.id === itemId)
+    switch (event.type) {
+      case "response.output_item.done": {
+        // the item was completed in the conversation already (see reduceConversation)
+        const item = findItem(event.item.id!) ?? event.item
+        const added = !previousItems.some((previous) => previous.id === item.id)
+        if (added && isCompleteWhenAdded(item)) {
+          // itemCompleted was dispatched when it was added above
+          break
+        }
+        this.dispatchClientEvent("itemCompleted", new ItemCompletedEvent(item))
+        break
+      }
+      case "conversation.item.input_audio_transcription.completed":
+      case "conversation.item.input_audio_transcription.failed": {
+        const item = findItem(event.item_id)
+        if (item) {
+          this.dispatchClientEvent(
+            "itemCompleted",
+            new ItemCompletedEvent(item),
+          )
+        }
+        break
+      }
+      case "conversation.item.deleted":
+        this.dispatchClientEvent(
+          "itemDeleted",
+          new ItemDeletedEvent(event.item_id),
+        )
+        break
+      case "conversation.item.truncated":
+        this.dispatchClientEvent(
+          "itemTruncated",
+          new ItemTruncatedEvent(
+            event.item_id,
+            findItem(event.item_id),
+            event.content_index,
+            event.audio_end_ms,
+          ),
+        )
+        break
+    }
+  }
+
+  private static privateServerEventHandlers: Partial<RealtimeServerEventTypeToHandlerMap> =
+    {
+      error: (client, event) => {
+        const errorEvent = event as RealtimeServerEventError
+        const clientEvent = errorEvent.error.event_id
+          ? client.sentClientEvents.get(errorEvent.error.event_id)
+          : undefined
+        client.clientLog.error(
+          "Error event from server: %o",
+          errorEvent,
+          clientEvent,
+        )
+        client.failSessionUpdate(errorEvent)
+        client.failResponse(errorEvent)
+        client.dispatchClientEvent(
+          "serverError",
+          new ServerErrorEvent(errorEvent, clientEvent),
+        )
+      },
+      "session.created": (client, event) => {
+        // when a conversation is created, set the conversation state:
+        const sessionEvent = event as RealtimeServerEventSessionCreated
+
+        client.session = sessionEvent.session
+        client.dispatchClientEvent(
+          "sessionCreated",
+          new SessionCreatedEvent(sessionEvent.session),
+        )
+        if (client.tools.size > 0) {
+          client.sendToolsSessionUpdate()
+        }
+      },
+      "session.updated": (client, event) => {
+        const sessionEvent = event as RealtimeServerEventSessionUpdated
+        client.session = sessionEvent.session
+        client.confirmSessionUpdate(sessionEvent.session)
+        client.dispatchClientEvent(
+          "sessionUpdated",
+          new SessionUpdatedEvent(sessionEvent.session),
+        )
+      },
+      "response.done": (client, event) => {
+        const responseEvent = event as RealtimeServerEventResponseDone
+        const response = responseEvent.response
+        client.completeResponse(response)
+        if (response.id) {
+          client.completeToolCalls(response.id).catch((err) => {
+            client.clientLog.error(
+              `Failed to complete the tool calls of response ${response.id}`,
+              err,
+            )
+          })
+        }
+      },
+      "response.function_call_arguments.done": (client, event) => {
+        const doneEvent =
+          event as RealtimeServerEventResponseFunctionCallArgumentsDone
+        // the arguments were completed in the conversation already (see reduceConversation) and a missing item was logged
+        const functionCallItem = client.conversation.items.find(
+          (item) => item.id === doneEvent.item_id,
+        )
+        // the model will respond to the outputs once the response is done. See completeToolCalls.
+        const toolCalls =
+          client.pendingToolCalls.get(doneEvent.response_id) ?? []
+        toolCalls.push(client.callTool(functionCallItem, doneEvent))
+        client.pendingToolCalls.set(doneEvent.response_id, toolCalls)
+      },
+    }
+}
+
+type RealtimeServerEventHandler<
+  TRealtimeServerEventType extends RealtimeServerEvent["type"] =
+    RealtimeServerEvent["type"],
+> = (
+  client: RealtimeClientBase<RealtimeClientEventMap>,
+  event: Extract<RealtimeServerEvent, { type: TRealtimeServerEventType }>,
+) => void
+
+type RealtimeServerEventNames = RealtimeServerEvent["type"]
+
+type RealtimeServerEventTypeToHandlerMap = {
+  [K in RealtimeServerEventNames]: RealtimeServerEventHandler<K>
+}
+
+/**
+ * If the two values are objects, and one has a property that is null or
+ * undefined and the other either does not have that property or the
+ * property is null or undefined, then the property will be considered equal.
+ * If the value is not an object, a normal deep-equal operation is done.
+ */
+function compareValuesIgnoreNullProperties(valueA: any, valueB: any): boolean {
+  if (
+    typeof valueA === "object" &&
+    typeof valueB === "object" &&
+    valueA &&
+    valueB
+  ) {
+    for (const key in valueB) {
+      if (valueB[key] == null) {
+        // if session has null/undefined property, ignore it if request doesn't have it or is also null/undefined
+        if (!(key in valueA) || valueA[key] == null) continue
+        return false
+      }
+      if (!compareValuesIgnoreNullProperties(valueA[key], valueB[key]))
+        return false
+    }
+    return true
+  }
+  return isEqual(valueA, valueB)
+}
+
+/**
+ * Indicates if an item is complete when it is added to the conversation, rather than being completed by later events: the model's items are completed when its response is done and the user's audio when it is transcribed.
+ */
+function isCompleteWhenAdded(item: RealtimeConversationItem): boolean {
+  if (item.status !== "completed") {
+    return false
+  }
+  return !item.content?.some(
+    (part) => part.type === "input_audio" && part.transcript == null,
+  )
+}
+
+/**
+ * Returns a copy of a message in the conversation with its audio replaced by the audio's transcript, or undefined if the item has no text to replay.
+ */
+function replayableMessage(
+  item: RealtimeConversationItem,
+): RealtimeConversationItem | undefined {
+  if (item.type !== "message" || !item.content) {
+    return undefined
+  }
+  const content: RealtimeConversationItem["content"] = []
+  // NOTE: OpenAI's OpenAPI types have a bit of a mismatch here: they don't include the "audio" content type
+  for (const part of item.content as RealtimeConversationItemContent[]) {
+    const text =
+      part.type === "input_audio" || part.type === "audio"
+        ? part.transcript
+        : part.type === "item_reference"
+          ? undefined
+          : part.text
+    if (!text) {
+      continue
+    }
+    // user and system messages take input_text content; assistant messages take text content
+    content.push(
+      item.role === "assistant"
+        ? { type: "text", text }
+        : { type: "input_text", text },
+    )
+  }
+  if (content.length === 0) {
+    return undefined
+  }
+  return { id: item.id, type: "message", role: item.role, content }
+}
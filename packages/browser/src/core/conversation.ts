@@ -0,0 +1,263 @@
+import { createLogger, type Logger } from "../log.js"
+import type {
+  RealtimeConversationItem,
+  RealtimeServerEvent,
+  RealtimeSession,
+} from "../openai/index.js"
+import {
+  insertConversationItem,
+  patchConversationItemWithCompletedText,
+  patchConversationItemWithCompletedTranscript,
+  patchConversationItemWithContentPart,
+  patchConversationItemWithFunctionCallArguments,
+  patchConversationItemWithTextDelta,
+  patchConversationItemWithTranscriptDelta,
+  patchConversationItemWithTruncatedAudio,
+  patchConversationWithOutputItem,
+  patchConversationWithResponseOutput,
+  removeConversationItem,
+} from "./items.js"
+
+type AudioFormat = NonNullable<RealtimeSession["output_audio_format"]>
+
+/**
+ * The conversation hydrated from the server events of a Realtime API session by @see reduceConversation.
+ * States are never modified: each change produces a new state that shares everything that didn't change with the previous one, so they can be compared by reference (e.g. for React memoization).
+ */
+export interface RealtimeConversationState {
+  /**
+   * The items in the conversation, in order.
+   */
+  readonly items: RealtimeConversationItem[]
+  /**
+   * The duration in milliseconds of the model's audio received so far for each item. Used to trim an item's transcript when its audio is truncated.
+   */
+  readonly audioDurations: Readonly<Record<string, number>>
+  /**
+   * The format of the model's audio in the session, which is needed to find the duration of the audio.
+   */
+  readonly outputAudioFormat: AudioFormat
+  /**
+   * The ids of the items in the server's conversation for the current session. Items from an earlier session (e.g. before reconnecting or in a restored conversation) aren't in it unless they were replayed.
+   */
+  readonly sessionItemIds: readonly string[]
+}
+
+/**
+ * The state of a conversation before any events are received.
+ */
+export const initialConversationState: RealtimeConversationState = {
+  items: [],
+  audioDurations: {},
+  outputAudioFormat: "pcm16",
+  sessionItemIds: [],
+}
+
+const silentLog = createLogger(console, "silent")
+
+/**
+ * Returns the conversation state after the given server event. This is a pure function, so it can also hydrate a conversation from a recorded log of server events (e.g. in a worker, in Node.js, or in tests).
+ * @param state The state before the event. Use @see initialConversationState for a new session.
+ * @param event The server event received from the Realtime API.
+ * @param context Where to log unexpected events (e.g. a delta for an item that doesn't exist). Nothing is logged by default.
+ * @returns The new state, or the given state if the event doesn't change the conversation.
+ */
+export function reduceConversation(
+  state: RealtimeConversationState,
+  event: RealtimeServerEvent,
+  context: { log: Logger } = { log: silentLog },
+): RealtimeConversationState {
+  const reducer = conversationReducers[event.type] as
+    ConversationReducer<(typeof event)["type"]> | undefined
+  return reducer ? reducer(state, event, context) : state
+}
+
+type ConversationReducer<
+  TRealtimeServerEventType extends RealtimeServerEvent["type"] =
+    RealtimeServerEvent["type"],
+> = (
+  state: RealtimeConversationState,
+  event: Extract<RealtimeServerEvent, { type: TRealtimeServerEventType }>,
+  context: { log: Logger },
+) => RealtimeConversationState
+
+type RealtimeServerEventTypeToReducerMap = {
+  [K in RealtimeServerEvent["type"]]: ConversationReducer<K>
+}
+
+const conversationReducers: Partial<RealtimeServerEventTypeToReducerMap> = {
+  "session.created": (state, event) =>
+    withOutputAudioFormat(
+      // the new session's conversation is empty, even when the local conversation continues an earlier one
+      state.sessionItemIds.length > 0
+        ? { ...state, sessionItemIds: [] }
+        : state,
+      event.session.output_audio_format,
+    ),
+  "session.updated": (state, event) =>
+    withOutputAudioFormat(state, event.session.output_audio_format),
+  "conversation.item.created": (state, event, context) => ({
+    ...withItems(
+      state,
+      insertConversationItem(
+        context,
+        state.items,
+        event.item,
+        // NOTE: OpenAI's OpenAPI types have a bit of a mismatch here: the server sends null for the first item
+        (event.previous_item_id as string | null) ?? null,
+        state.sessionItemIds,
+      ),
+    ),
+    sessionItemIds: [...state.sessionItemIds, event.item.id!],
+  }),
+  "conversation.item.deleted": (state, event, context) => {
+    const items = removeConversationItem(
+      context,
+      state.items,
+      event.item_id,
+      event,
+    )
+    if (items === state.items) {
+      return state
+    }
+    const { [event.item_id]: _deleted, ...audioDurations } =
+      state.audioDurations
+    const sessionItemIds = state.sessionItemIds.filter(
+      (id) => id !== event.item_id,
+    )
+    return { ...state, items, audioDurations, sessionItemIds }
+  },
+  "response.audio.delta": (state, event) => ({
+    ...state,
+    audioDurations: {
+      ...state.audioDurations,
+      [event.item_id]:
+        (state.audioDurations[event.item_id] ?? 0) +
+        audioDurationMs(event.delta, state.outputAudioFormat),
+    },
+  }),
+  "conversation.item.truncated": (state, event, context) =>
+    // the server removes the transcript of the audio the user didn't hear, so we do the same. See truncateItem.
+    withItems(
+      state,
+      patchConversationItemWithTruncatedAudio(
+        context,
+        state.items,
+        event,
+        state.audioDurations[event.item_id],
+      ),
+    ),
+  // the model's message has an "audio" or "text" content part for each of the response's modalities
+  "response.content_part.added": (state, event, context) =>
+    withItems(
+      state,
+      patchConversationItemWithContentPart(context, state.items, event),
+    ),
+  "response.content_part.done": (state, event, context) =>
+    withItems(
+      state,
+      patchConversationItemWithContentPart(context, state.items, event),
+    ),
+  "response.audio_transcript.delta": (state, event, context) =>
+    withItems(
+      state,
+      patchConversationItemWithTranscriptDelta(context, state.items, event),
+    ),
+  "response.audio_transcript.done": (state, event, context) =>
+    withItems(
+      state,
+      patchConversationItemWithCompletedTranscript(context, state.items, event),
+    ),
+  "conversation.item.input_audio_transcription.completed": (
+    state,
+    event,
+    context,
+  ) =>
+    withItems(
+      state,
+      patchConversationItemWithCompletedTranscript(context, state.items, event),
+    ),
+  // text is streamed when the session or response includes the "text" modality
+  "response.text.delta": (state, event, context) =>
+    withItems(
+      state,
+      patchConversationItemWithTextDelta(context, state.items, event),
+    ),
+  "response.text.done": (state, event, context) =>
+    withItems(
+      state,
+      patchConversationItemWithCompletedText(context, state.items, event),
+    ),
+  "response.function_call_arguments.delta": (state, event, context) =>
+    withItems(
+      state,
+      patchConversationItemWithFunctionCallArguments(
+        context,
+        state.items,
+        event,
+      ),
+    ),
+  "response.function_call_arguments.done": (state, event, context) =>
+    withItems(
+      state,
+      patchConversationItemWithFunctionCallArguments(
+        context,
+        state.items,
+        event,
+      ),
+    ),
+  // the completed item, before itemCompleted is dispatched for it
+  "response.output_item.done": (state, event, context) =>
+    withItems(
+      state,
+      patchConversationWithOutputItem(context, state.items, event.item, event),
+    ),
+  "response.done": (state, event, context) => {
+    // https://platform.openai.com/docs/api-reference/realtime-server-events/response/done
+    if (!event.response.output) {
+      context.log.error("No output in response.done")
+      return state
+    }
+    return withItems(
+      state,
+      patchConversationWithResponseOutput(
+        context,
+        state.items,
+        event.response,
+        event,
+      ),
+    )
+  },
+}
+
+function withItems(
+  state: RealtimeConversationState,
+  items: RealtimeConversationItem[],
+): RealtimeConversationState {
+  return items === state.items ? state : { ...state, items }
+}
+
+function withOutputAudioFormat(
+  state: RealtimeConversationState,
+  outputAudioFormat: AudioFormat | undefined,
+): RealtimeConversationState {
+  if (!outputAudioFormat || outputAudioFormat === state.outputAudioFormat) {
+    return state
+  }
+  return { ...state, outputAudioFormat }
+}
+
+/**
+ * Returns the duration in milliseconds of base64 encoded audio in the given Realtime API audio format.
+ */
+function audioDurationMs(base64Audio: string, format: AudioFormat): number {
+  const padding = base64Audio.endsWith("==")
+    ? 2
+    : base64Audio.endsWith("=")
+      ? 1
+      : 0
+  const byteLength = (base64Audio.length * 3) / 4 - padding
+  // pcm16 is 16-bit samples at 24kHz; G.711 is 8-bit samples at 8kHz
+  const bytesPerMs = format === "pcm16" ? 48 : 8
+  return byteLength / bytesPerMs
+}
@@ -0,0 +1,20 @@
+import type {
+  RealtimeClientEvent,
+  RealtimeServerEventError,
+} from "../openai/index.js"
+
+/**
+ * An `error` event from the Realtime API server.
+ */
+export class RealtimeServerError extends Error {
+  constructor(
+    public readonly event: RealtimeServerEventError,
+    /**
+     * The client event that caused the error, if known.
+     */
+    public readonly clientEvent?: RealtimeClientEvent,
+  ) {
+    super(event.error.message)
+    this.name = "RealtimeServerError"
+  }
+}
@@ -0,0 +1,213 @@
+import type { Simplify } from "type-fest"
+import type {
+  RealtimeClientEvent,
+  RealtimeServerEvent,
+  RealtimeServerEventError,
+  RealtimeConversationItem,
+  RealtimeSession,
+} from "../openai/index.js"
+
+// Add this index signature allows the key to be string
+// & {
+//   /**
+//    * Emitted for each of the specified Realtime Server event type.
+//    */
+//   [EventType in RealtimeServerEvent["type"]]: RealtimeServerEventEvent<
+//     RealtimeServerEventTypeMap[EventType]
+//   >
+// }
+export class BaseEvent<TType extends string> extends Event {
+  constructor(public readonly type: TType) {
+    super(type)
+  }
+}
+
+export class RealtimeServerEventEvent<
+  T extends RealtimeServerEvent = RealtimeServerEvent,
+> extends BaseEvent<"serverEvent"> {
+  constructor(public readonly event: T) {
+    super("serverEvent")
+  }
+}
+
+export class ConversationChangedEvent extends BaseEvent<"conversationChanged"> {
+  constructor(public readonly conversation: RealtimeConversationItem[]) {
+    super("conversationChanged")
+    this.conversation = conversation
+  }
+}
+
+export class ItemAddedEvent extends BaseEvent<"itemAdded"> {
+  constructor(
+    public readonly item: RealtimeConversationItem,
+    /**
+     * The position of the item in the conversation.
+     */
+    public readonly index: number,
+  ) {
+    super("itemAdded")
+  }
+}
+
+export class ItemUpdatedEvent extends BaseEvent<"itemUpdated"> {
+  constructor(
+    public readonly itemId: string,
+    /**
+     * The item after the update.
+     */
+    public readonly item: RealtimeConversationItem,
+    /**
+     * The index of the content part that was updated, if the update was to a single content part.
+     */
+    public readonly contentIndex: number | undefined,
+    /**
+     * The text, transcript, or function call arguments that were appended to the item, if the update streamed more of them.
+     */
+    public readonly delta: string | undefined,
+  ) {
+    super("itemUpdated")
+  }
+}
+
+export class ItemCompletedEvent extends BaseEvent<"itemCompleted"> {
+  constructor(public readonly item: RealtimeConversationItem) {
+    super("itemCompleted")
+  }
+}
+
+export class ItemDeletedEvent extends BaseEvent<"itemDeleted"> {
+  constructor(public readonly itemId: string) {
+    super("itemDeleted")
+  }
+}
+
+export class ItemTruncatedEvent extends BaseEvent<"itemTruncated"> {
+  constructor(
+    public readonly itemId: string,
+    /**
+     * The item after its transcript was trimmed to the audio that was played.
+     */
+    public readonly item: RealtimeConversationItem | undefined,
+    public readonly contentIndex: number,
+    /**
+     * The duration of the audio that was played, in milliseconds.
+     */
+    public readonly audioEndMs: number,
+  ) {
+    super("itemTruncated")
+  }
+}
+
+export class SessionUpdatedEvent extends BaseEvent<"sessionUpdated"> {
+  constructor(public readonly session: RealtimeSession | undefined) {
+    super("sessionUpdated")
+  }
+}
+
+export class SessionCreatedEvent extends BaseEvent<"sessionCreated"> {
+  constructor(public readonly session: RealtimeSession) {
+    super("sessionCreated")
+  }
+}
+
+export class ServerErrorEvent extends BaseEvent<"serverError"> {
+  constructor(
+    public readonly event: RealtimeServerEventError,
+    /**
+     * The client event that caused the error, if the server identified it and it was sent by this client.
+     */
+    public readonly clientEvent: RealtimeClientEvent | undefined,
+  ) {
+    super("serverError")
+  }
+}
+
+/**
+ * The state of the client's connection to the Realtime API.
+ * - `idle`: The client has not been started.
+ * - `requestingMedia`: The client is requesting access to the microphone.
+ * - `negotiating`: The client is connecting to the server.
+ * - `connected`: The connection is established and client events can be sent.
+ * - `reconnecting`: The connection was interrupted and is being re-established.
+ * - `closing`: The client is being stopped.
+ * - `closed`: The connection was closed by the client or the server.
+ * - `failed`: The connection could not be established or was lost due to an error.
+ */
+export type RealtimeConnectionState =
+  | "idle"
+  | "requestingMedia"
+  | "negotiating"
+  | "connected"
+  | "reconnecting"
+  | "closing"
+  | "closed"
+  | "failed"
+
+export class ConnectionStateChangedEvent extends BaseEvent<"connectionStateChanged"> {
+  constructor(
+    public readonly state: RealtimeConnectionState,
+    public readonly previousState: RealtimeConnectionState,
+    /**
+     * The error that caused the change, when the state is `failed`.
+     */
+    public readonly error?: unknown,
+  ) {
+    super("connectionStateChanged")
+  }
+}
+
+export interface EventTargetListener<TEvent extends Event> {
+  (evt: TEvent): void
+}
+/**
+ * Used to map the each event name to its corresponding Event type.
+ */
+
+export type RealtimeClientEventMap = Simplify<{
+  /**
+   * Emitted for all of the Realtime Server events.
+   */
+  serverEvent: RealtimeServerEventEvent<RealtimeServerEvent>
+  /**
+   * Emitted when the server sends an `error` event.
+   */
+  serverError: ServerErrorEvent
+  /**
+   * Emitted when the session starts
+   */
+  sessionCreated: SessionCreatedEvent
+  /**
+   * Emitted when the session is updated.
+   */
+  sessionUpdated: SessionUpdatedEvent
+  /**
+   * Emitted when the conversation changes
+   * @param event
+   * @returns
+   */
+  conversationChanged: ConversationChangedEvent
+  /**
+   * Emitted when an item is added to the conversation.
+   */
+  itemAdded: ItemAddedEvent
+  /**
+   * Emitted when an item in the conversation changes, e.g. for each streamed delta of a transcript. Use this rather than conversationChanged to update a single item.
+   */
+  itemUpdated: ItemUpdatedEvent
+  /**
+   * Emitted when an item will not change anymore: when the model finishes an item in its response, when the transcription of the user's audio is done, or when an item that is already complete is added.
+   */
+  itemCompleted: ItemCompletedEvent
+  /**
+   * Emitted when the server deletes an item from the conversation.
+   */
+  itemDeleted: ItemDeletedEvent
+  /**
+   * Emitted when the audio of an item was truncated (e.g. when the user interrupts the model).
+   */
+  itemTruncated: ItemTruncatedEvent
+  /**
+   * Emitted when the state of the connection to the server changes.
+   */
+  connectionStateChanged: ConnectionStateChangedEvent
+}>
@@ -0,0 +1,13 @@
+/**
+ * Generates a unique ID for a client event. The server includes it in any error caused by the event.
+ */
+export function generateEventId(): string {
+  return `event_${crypto.randomUUID()}`
+}
+
+/**
+ * Generates a unique ID for a conversation saved in a @see ConversationStore.
+ */
+export function generateConversationId(): string {
+  return `conversation_${crypto.randomUUID()}`
+}
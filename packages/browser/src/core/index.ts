@@ -0,0 +1,13 @@
+// NOTE: The modules in core have no browser dependencies so that they can be shared with the Node.js package. They use explicit .js extensions so that Node.js can load them as ES modules.
+export { RealtimeClientBase } from "./RealtimeClientBase.js"
+export type { RealtimeClientBaseOptions } from "./RealtimeClientBase.js"
+export * from "./events.js"
+export * from "./items.js"
+export { initialConversationState, reduceConversation } from "./conversation.js"
+export type { RealtimeConversationState } from "./conversation.js"
+export type { RealtimeTool } from "./tools.js"
+export { generateConversationId, generateEventId } from "./ids.js"
+export { InMemoryConversationStore } from "./store.js"
+export type { ConversationStore } from "./store.js"
+export { RealtimeServerError } from "./errors.js"
+export type { Logger, LogLevel } from "../log.js"
@@ -0,0 +1,535 @@
+import { isEqual } from "lodash-es"
+import type { Logger } from "../log.js"
+import type {
+  RealtimeConversationItem,
+  RealtimeConversationItemContent,
+  RealtimeResponse,
+  RealtimeServerEventConversationItemTruncated,
+  RealtimeServerEventResponseAudioTranscriptDelta,
+  RealtimeServerEventResponseContentPartAdded,
+  RealtimeServerEventResponseContentPartDone,
+  RealtimeServerEventResponseFunctionCallArgumentsDelta,
+  RealtimeServerEventResponseFunctionCallArgumentsDone,
+  RealtimeServerEventResponseTextDelta,
+  RealtimeServerEventResponseTextDone,
+  RealtimeServerEventWithCompletedTranscript,
+} from "../openai/index.js"
+
+// NOTE: The functions that patch the conversation never modify the conversation or its items. They return a new conversation that shares the items that didn't change, or the existing conversation if nothing changed.
+
+/**
+ * Finds the specified item in a conversation.
+ * @param conversation The existing conversation to search
+ * @param item_id The item id of the conversation item sought.
+ * @param forEvent The event that the item is being sought for used for logging).
+ * @returns The conversation item with the given item_id or undefined if not found.
+ */
+export function findConversationItem(
+  context: { log: Logger },
+  conversation: RealtimeConversationItem[],
+  item_id: string,
+  forEvent: {
+    type: string
+    event_id: string
+  },
+): RealtimeConversationItem | undefined {
+  // get conversation item:
+  const found = conversation.find((convItem) => {
+    return convItem.id == item_id
+  })
+  if (!found) {
+    context.log.error(
+      `No conversation item ${item_id} found for event ${forEvent.type} with id ${forEvent.event_id}. Existing conversation searched: ${conversation} (${conversation.length} items)`,
+    )
+    return undefined
+  }
+  return found
+}
+
+/**
+ * Finds the specified content item in a conversation item.
+ * @param conversation The existing conversation to search
+ * @param item_id The item id of the conversation item sought.
+ * @param content_index The index of the content item sought.
+ * @param forEvent The event that the item is being sought for used for logging).
+ * @returns The conversation item content with the given item_id and content_index or undefined if not found.
+ */
+export function findConversationItemContent(
+  context: { log: Logger },
+  conversation: RealtimeConversationItem[],
+  item_id: string,
+  content_index: number,
+  forEvent: {
+    type: string
+    event_id: string
+  },
+): {
+  foundItem: RealtimeConversationItem | undefined
+  foundContent: RealtimeConversationItemContent | undefined
+} {
+  const foundItem = findConversationItem(
+    context,
+    conversation,
+    item_id,
+    forEvent,
+  )
+  if (!foundItem) {
+    return { foundItem, foundContent: undefined }
+  }
+  if (!foundItem.content) {
+    context.log.error(
+      `Conversation item ${foundItem.id} has no content at index ${content_index}.`,
+    )
+    return { foundItem, foundContent: undefined }
+  }
+  const foundContent = foundItem.content[
+    content_index
+  ] as RealtimeConversationItemContent
+  return { foundItem, foundContent }
+}
+
+/**
+ * Adds an item to a conversation after the item that precedes it in the server's conversation.
+ * @param previousItemId The id of the preceding item, or null if the item is the first in the server's conversation. When the preceding item isn't in the conversation the item is added to the end.
+ * @param serverItemIds The ids of the items in the server's conversation, when the conversation also has items from an earlier session that the server doesn't have. A first item is added after those items rather than before them. Defaults to all of the items.
+ * @returns A new conversation, or the existing conversation if the item is already in it.
+ */
+export function insertConversationItem(
+  context: { log: Logger },
+  conversation: RealtimeConversationItem[],
+  item: RealtimeConversationItem,
+  previousItemId: string | null,
+  serverItemIds?: readonly string[],
+): RealtimeConversationItem[] {
+  if (conversation.some((existing) => existing.id === item.id)) {
+    // the item is already in the conversation (e.g. it was replayed in a new session after reconnecting)
+    return conversation
+  }
+  if (!previousItemId) {
+    // the item goes before the server's items, but after the items from earlier sessions
+    const firstServerItemIndex = serverItemIds
+      ? conversation.findIndex((existing) =>
+          serverItemIds.includes(existing.id!),
+        )
+      : 0
+    return firstServerItemIndex < 0
+      ? [...conversation, item]
+      : conversation.toSpliced(firstServerItemIndex, 0, item)
+  }
+  const previousIndex = conversation.findIndex(
+    (existing) => existing.id === previousItemId,
+  )
+  if (previousIndex < 0) {
+    context.log.warn(
+      `Previous item ${previousItemId} of item ${item.id} is not in the conversation. Adding the item to the end.`,
+    )
+    return [...conversation, item]
+  }
+  return conversation.toSpliced(previousIndex + 1, 0, item)
+}
+
+/**
+ * Removes an item from a conversation.
+ * @returns A new conversation, or the existing conversation if the item wasn't found.
+ */
+export function removeConversationItem(
+  context: { log: Logger },
+  conversation: RealtimeConversationItem[],
+  item_id: string,
+  forEvent: {
+    type: string
+    event_id: string
+  },
+): RealtimeConversationItem[] {
+  const foundItem = findConversationItem(
+    context,
+    conversation,
+    item_id,
+    forEvent,
+  )
+  if (!foundItem) {
+    // error was logged in findConversationItem
+    return conversation
+  }
+  return conversation.filter((item) => item !== foundItem)
+}
+
+/**
+ * Replaces the specified item in a conversation with the result of update.
+ * @returns A new conversation, or the existing conversation if the item wasn't found or update returned the same item.
+ */
+export function updateConversationItem(
+  context: { log: Logger },
+  conversation: RealtimeConversationItem[],
+  item_id: string,
+  forEvent: {
+    type: string
+    event_id: string
+  },
+  update: (item: RealtimeConversationItem) => RealtimeConversationItem,
+): RealtimeConversationItem[] {
+  const foundItem = findConversationItem(
+    context,
+    conversation,
+    item_id,
+    forEvent,
+  )
+  if (!foundItem) {
+    // error was logged in findConversationItem
+    return conversation
+  }
+  const updatedItem = update(foundItem)
+  if (updatedItem === foundItem) {
+    return conversation
+  }
+  return conversation.map((item) => (item === foundItem ? updatedItem : item))
+}
+
+/**
+ * Replaces the specified content part of an item in a conversation with the result of update. If the item has no content part at that index, the part that update returns is added to the end of the item's content.
+ * @returns A new conversation, or the existing conversation if the item wasn't found or update returned an equal content part.
+ */
+function updateConversationItemContent(
+  context: { log: Logger },
+  conversation: RealtimeConversationItem[],
+  item_id: string,
+  content_index: number,
+  forEvent: {
+    type: string
+    event_id: string
+  },
+  update: (
+    content: RealtimeConversationItemContent | undefined,
+  ) => RealtimeConversationItemContent | undefined,
+): RealtimeConversationItem[] {
+  return updateConversationItem(
+    context,
+    conversation,
+    item_id,
+    forEvent,
+    (item) => {
+      const existingContent = item.content ?? []
+      const foundContent = existingContent[content_index] as
+        RealtimeConversationItemContent | undefined
+      const updatedContent = update(foundContent)
+      if (!updatedContent || isEqual(updatedContent, foundContent)) {
+        return item
+      }
+      const content = foundContent
+        ? existingContent.map((part, index) =>
+            index === content_index ? updatedContent : part,
+          )
+        : [...existingContent, updatedContent]
+      // NOTE: OpenAI's OpenAPI types have a bit of a mismatch here: they don't include the "audio" content type
+      return {
+        ...item,
+        content: content as RealtimeConversationItem["content"],
+      }
+    },
+  )
+}
+
+/**
+ * Sets the final transcript of the user's audio or the model's audio.
+ */
+export function patchConversationItemWithCompletedTranscript(
+  context: { log: Logger },
+  existingConversation: RealtimeConversationItem[],
+  audioEvent: RealtimeServerEventWithCompletedTranscript,
+): RealtimeConversationItem[] {
+  // the user's audio is in an input_audio content part and the model's audio in an audio content part
+  const contentType =
+    audioEvent.type === "response.audio_transcript.done"
+      ? "audio"
+      : "input_audio"
+  return updateConversationItemContent(
+    context,
+    existingConversation,
+    audioEvent.item_id,
+    audioEvent.content_index,
+    audioEvent,
+    (foundContent) => {
+      if (!foundContent) {
+        // add it:
+        return { type: contentType, transcript: audioEvent.transcript }
+      }
+      // content exists, update it:
+      if (foundContent.type !== contentType) {
+        context.log.error(
+          `Unexpected content type ${foundContent.type} for audio transcript`,
+        )
+        return foundContent
+      }
+      return { ...foundContent, transcript: audioEvent.transcript }
+    },
+  )
+}
+
+/**
+ * Appends a streamed transcript of the model's audio to the "audio" content part of an assistant message.
+ */
+export function patchConversationItemWithTranscriptDelta(
+  context: { log: Logger },
+  existingConversation: RealtimeConversationItem[],
+  deltaEvent: RealtimeServerEventResponseAudioTranscriptDelta,
+): RealtimeConversationItem[] {
+  return updateConversationItemContent(
+    context,
+    existingConversation,
+    deltaEvent.item_id,
+    deltaEvent.content_index,
+    deltaEvent,
+    (foundContent) => {
+      if (!foundContent) {
+        // the part is normally added by response.content_part.added, but add it if that was missed:
+        return { type: "audio", transcript: deltaEvent.delta }
+      }
+      if (foundContent.type !== "audio") {
+        context.log.error(
+          `${deltaEvent.type} Unexpected content type ${foundContent.type} for audio transcript`,
+        )
+        return foundContent
+      }
+      return {
+        ...foundContent,
+        transcript: (foundContent.transcript ?? "") + deltaEvent.delta,
+      }
+    },
+  )
+}
+
+/**
+ * Adds a content part to an assistant message when the model starts it, or sets its final value when the model is done with it.
+ */
+export function patchConversationItemWithContentPart(
+  context: { log: Logger },
+  existingConversation: RealtimeConversationItem[],
+  partEvent:
+    | RealtimeServerEventResponseContentPartAdded
+    | RealtimeServerEventResponseContentPartDone,
+): RealtimeConversationItem[] {
+  const { type, text, transcript } = partEvent.part
+  // the audio itself is delivered separately (e.g. in response.audio.delta events or the WebRTC media stream)
+  const part: RealtimeConversationItemContent =
+    type === "audio" ? { type, transcript } : { type: "text", text }
+  return updateConversationItemContent(
+    context,
+    existingConversation,
+    partEvent.item_id,
+    partEvent.content_index,
+    partEvent,
+    (foundContent) => {
+      if (
+        partEvent.type === "response.content_part.added" &&
+        foundContent?.type === part.type
+      ) {
+        // the part already has content (e.g. a delta arrived first)
+        return foundContent
+      }
+      return part
+    },
+  )
+}
+
+/**
+ * Appends streamed text to the "text" content part of an assistant message.
+ */
+export function patchConversationItemWithTextDelta(
+  context: { log: Logger },
+  existingConversation: RealtimeConversationItem[],
+  textEvent: RealtimeServerEventResponseTextDelta,
+): RealtimeConversationItem[] {
+  return updateConversationItemContent(
+    context,
+    existingConversation,
+    textEvent.item_id,
+    textEvent.content_index,
+    textEvent,
+    (foundContent) => {
+      if (!foundContent) {
+        // this is the first delta, add it:
+        return { type: "text", text: textEvent.delta }
+      }
+      if (foundContent.type !== "text") {
+        context.log.error(
+          `Unexpected content type ${foundContent.type} for text delta`,
+        )
+        return foundContent
+      }
+      return {
+        ...foundContent,
+        text: (foundContent.text ?? "") + textEvent.delta,
+      }
+    },
+  )
+}
+
+/**
+ * Sets the final text of the "text" content part of an assistant message.
+ */
+export function patchConversationItemWithCompletedText(
+  context: { log: Logger },
+  existingConversation: RealtimeConversationItem[],
+  textEvent: RealtimeServerEventResponseTextDone,
+): RealtimeConversationItem[] {
+  return updateConversationItemContent(
+    context,
+    existingConversation,
+    textEvent.item_id,
+    textEvent.content_index,
+    textEvent,
+    (foundContent) => {
+      if (!foundContent) {
+        // add it:
+        return { type: "text", text: textEvent.text }
+      }
+      if (foundContent.type !== "text") {
+        context.log.error(
+          `Unexpected content type ${foundContent.type} for completed text`,
+        )
+        return foundContent
+      }
+      return { ...foundContent, text: textEvent.text }
+    },
+  )
+}
+
+/**
+ * Appends streamed arguments to a function call, or sets the final arguments when they are done.
+ */
+export function patchConversationItemWithFunctionCallArguments(
+  context: { log: Logger },
+  existingConversation: RealtimeConversationItem[],
+  argumentsEvent:
+    | RealtimeServerEventResponseFunctionCallArgumentsDelta
+    | RealtimeServerEventResponseFunctionCallArgumentsDone,
+): RealtimeConversationItem[] {
+  return updateConversationItem(
+    context,
+    existingConversation,
+    argumentsEvent.item_id,
+    argumentsEvent,
+    (functionCallItem) => ({
+      ...functionCallItem,
+      arguments:
+        argumentsEvent.type === "response.function_call_arguments.delta"
+          ? (functionCallItem.arguments ?? "") + argumentsEvent.delta
+          : argumentsEvent.arguments,
+    }),
+  )
+}
+
+/**
+ * Completes the items that were streamed for a response with the response's output when it is done.
+ */
+export function patchConversationWithResponseOutput(
+  context: { log: Logger },
+  existingConversation: RealtimeConversationItem[],
+  response: RealtimeResponse,
+  forEvent: {
+    type: string
+    event_id: string
+  },
+): RealtimeConversationItem[] {
+  let conversation = existingConversation
+  // for each response content item, find the conversation item patch it up:
+  for (const output of response.output ?? []) {
+    conversation = patchConversationWithOutputItem(
+      context,
+      conversation,
+      output,
+      forEvent,
+    )
+  }
+  return conversation
+}
+
+/**
+ * Completes an item that was streamed for a response with the completed item from `response.output_item.done` or the output of `response.done`.
+ */
+export function patchConversationWithOutputItem(
+  context: { log: Logger },
+  existingConversation: RealtimeConversationItem[],
+  output: RealtimeConversationItem,
+  forEvent: {
+    type: string
+    event_id: string
+  },
+): RealtimeConversationItem[] {
+  if (output.type != "function_call" && output.type != "message") {
+    context.log.error(
+      `Unexpected output type ${output.type} in ${forEvent.type}`,
+    )
+    return existingConversation
+  }
+  if (output.type == "message" && !output.content) {
+    context.log.error(`No content in output in ${forEvent.type}`)
+    return existingConversation
+  }
+  if (!existingConversation.some((item) => item.id === output.id)) {
+    // TODO: findConversationItem already logged an error, we should probably pass in a value that tells it not to log
+    // no existing item is there, for some reason maybe we missed it in the stream somehow? We'll just add it:
+    findConversationItem(context, existingConversation, output.id!, forEvent)
+    return [...existingConversation, output]
+  }
+  return updateConversationItem(
+    context,
+    existingConversation,
+    output.id!,
+    forEvent,
+    (conversationItem) => {
+      // the output is the completed version of the item, so it replaces the content that was streamed:
+      const completedItem = { ...conversationItem, ...output }
+      return isEqual(completedItem, conversationItem)
+        ? conversationItem
+        : completedItem
+    },
+  )
+}
+
+// Used to estimate how much of a transcript was heard when the duration of the item's audio isn't known (e.g. with WebRTC the audio isn't delivered as events).
+const ESTIMATED_TRANSCRIPT_CHARACTERS_PER_SECOND = 15
+
+/**
+ * Trims the transcript of an assistant message's audio to the part that was played before the audio was truncated.
+ * @param audioDurationMs The duration of the item's audio received before it was truncated, if known. The transcript is trimmed in proportion to the audio that was played. Otherwise, it is estimated from a typical speaking rate.
+ */
+export function patchConversationItemWithTruncatedAudio(
+  context: { log: Logger },
+  existingConversation: RealtimeConversationItem[],
+  truncatedEvent: RealtimeServerEventConversationItemTruncated,
+  audioDurationMs: number | undefined,
+): RealtimeConversationItem[] {
+  return updateConversationItemContent(
+    context,
+    existingConversation,
+    truncatedEvent.item_id,
+    truncatedEvent.content_index,
+    truncatedEvent,
+    (foundContent) => {
+      if (foundContent?.type !== "audio" || !foundContent.transcript) {
+        // nothing to trim
+        return foundContent
+      }
+      const transcript = foundContent.transcript
+      const keepLength = audioDurationMs
+        ? Math.floor(
+            (transcript.length * truncatedEvent.audio_end_ms) / audioDurationMs,
+          )
+        : Math.floor(
+            (ESTIMATED_TRANSCRIPT_CHARACTERS_PER_SECOND *
+              truncatedEvent.audio_end_ms) /
+              1000,
+          )
+      if (keepLength >= transcript.length) {
+        return foundContent
+      }
+      // don't leave a partial word at the end:
+      const wordEnd = transcript.lastIndexOf(" ", keepLength)
+      return {
+        ...foundContent,
+        transcript: transcript.slice(0, wordEnd > 0 ? wordEnd : keepLength),
+      }
+    },
+  )
+}
@@ -0,0 +1,45 @@
+import type { RealtimeConversationItem } from "../openai/index.js"
+
+/**
+ * Saves conversations so they can be restored in a later session, e.g. after the page is refreshed. Set it with the `conversationStore` option of the client and restore a conversation with `start({ restoreFrom: conversationId })`.
+ */
+export interface ConversationStore {
+  /**
+   * Saves the items of a conversation, replacing the items that were saved for it before.
+   */
+  save(conversationId: string, items: RealtimeConversationItem[]): Promise<void>
+  /**
+   * Loads the items of a conversation.
+   * @returns The items or undefined if the conversation wasn't saved.
+   */
+  load(conversationId: string): Promise<RealtimeConversationItem[] | undefined>
+  /**
+   * Deletes a conversation.
+   */
+  delete(conversationId: string): Promise<void>
+}
+
+/**
+ * A @see ConversationStore that keeps conversations in memory, e.g. to restore a conversation in a new session in the same page or process.
+ */
+export class InMemoryConversationStore implements ConversationStore {
+  private readonly conversations = new Map<string, RealtimeConversationItem[]>()
+
+  async save(
+    conversationId: string,
+    items: RealtimeConversationItem[],
+  ): Promise<void> {
+    // the client's conversation snapshots are never modified, so they can be kept as they are
+    this.conversations.set(conversationId, items)
+  }
+
+  async load(
+    conversationId: string,
+  ): Promise<RealtimeConversationItem[] | undefined> {
+    return this.conversations.get(conversationId)
+  }
+
+  async delete(conversationId: string): Promise<void> {
+    this.conversations.delete(conversationId)
+  }
+}
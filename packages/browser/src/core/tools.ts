@@ -0,0 +1,23 @@
+/**
+ * A function that the model can call. Register it with @see RealtimeClientBase.registerTool.
+ * See https://platform.openai.com/docs/guides/realtime-model-capabilities#function-calling
+ */
+export interface RealtimeTool<TArgs = unknown> {
+  /**
+   * The name of the function.
+   */
+  name: string
+  /**
+   * The description of the function, including guidance on when and how to call it, and guidance about what to tell the user when calling (if anything).
+   */
+  description?: string
+  /**
+   * The parameters of the function as a JSON Schema object.
+   */
+  parameters: Record<string, unknown>
+  /**
+   * Invoked with the parsed arguments when the model calls the function.
+   * The returned value is sent back to the model as the output of the call. Strings are sent as-is and anything else is sent as JSON.
+   */
+  handler: (args: TArgs) => Promise<unknown> | unknown
+}
@@ -1 +1,61 @@
 export type Logger = Pick<Console, "info" | "warn" | "error" | "debug">
+
+/**
+ * The minimum level of the messages that are logged. `silent` logs nothing.
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent"
+
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+}
+
+// bundlers replace process.env.NODE_ENV at build time and it's defined in Node.js
+declare const process: { env: Record<string, string | undefined> } | undefined
+
+/**
+ * The log level used when none is specified: `silent` in production builds (i.e. NODE_ENV is "production") and `debug` otherwise.
+ */
+export function defaultLogLevel(): LogLevel {
+  try {
+    return process?.env.NODE_ENV === "production" ? "silent" : "debug"
+  } catch {
+    // process isn't defined in the browser without a bundler
+    return "debug"
+  }
+}
+
+/**
+ * Returns a logger that only passes messages at or above the given level to the specified logger.
+ */
+export function createLogger(logger: Logger, level: LogLevel): Logger {
+  const enabled = (messageLevel: Exclude<LogLevel, "silent">) =>
+    LOG_LEVEL_ORDER[messageLevel] >= LOG_LEVEL_ORDER[level]
+  return {
+    debug: (...args) => enabled("debug") && logger.debug(...args),
+    info: (...args) => enabled("info") && logger.info(...args),
+    warn: (...args) => enabled("warn") && logger.warn(...args),
+    error: (...args) => enabled("error") && logger.error(...args),
+  }
+}
+
+/**
+ * Returns a logger that prefixes each message with the given namespace (e.g. `realtime:webrtc`).
+ */
+export function namespaceLogger(logger: Logger, namespace: string): Logger {
+  const prefix = `[${namespace}]`
+  // keep a format string (e.g. "%o") as the first argument so substitutions still work:
+  const prefixed = (args: unknown[]) =>
+    typeof args[0] === "string"
+      ? [`${prefix} ${args[0]}`, ...args.slice(1)]
+      : [prefix, ...args]
+  return {
+    debug: (...args) => logger.debug(...prefixed(args)),
+    info: (...args) => logger.info(...prefixed(args)),
+    warn: (...args) => logger.warn(...prefixed(args)),
+    error: (...args) => logger.error(...prefixed(args)),
+  }
+}
@@ -1,4 +1,4 @@
-import type { components } from "./openapi"
+import type { components } from "./openapi.js"
 import type { IterableElement, Simplify } from "type-fest"
 
 // NOTE: these types are generated and in the openai node/JS SDK repo, but they're not in the published package. See https://github.com/openai/openai-node/blob/master/src/resources/beta/realtime/realtime.ts.
@@ -27,6 +27,24 @@ export type RealtimeClientEventConversationItemCreate =
 export type RealtimeClientEventResponseCreate =
   components["schemas"]["RealtimeClientEventResponseCreate"]
 
+export type RealtimeClientEventResponseCancel =
+  components["schemas"]["RealtimeClientEventResponseCancel"]
+
+export type RealtimeClientEventConversationItemDelete =
+  components["schemas"]["RealtimeClientEventConversationItemDelete"]
+
+export type RealtimeClientEventConversationItemTruncate =
+  components["schemas"]["RealtimeClientEventConversationItemTruncate"]
+
+export type RealtimeClientEventInputAudioBufferAppend =
+  components["schemas"]["RealtimeClientEventInputAudioBufferAppend"]
+
+export type RealtimeClientEventInputAudioBufferCommit =
+  components["schemas"]["RealtimeClientEventInputAudioBufferCommit"]
+
+export type RealtimeClientEventInputAudioBufferClear =
+  components["schemas"]["RealtimeClientEventInputAudioBufferClear"]
+
 //#region Server Events Message Types
 /**
  * All the keys of components["schemas"] that begins with "RealtimeServerEvent"
@@ -67,6 +85,36 @@ export type RealtimeServerEventConversationItemInputAudioTranscriptionCompleted
 export type RealtimeServerEventResponseAudioTranscriptDone =
   components["schemas"]["RealtimeServerEventResponseAudioTranscriptDone"]
 
+/** Returned when the model-generated function call arguments are updated. */
+export type RealtimeServerEventResponseFunctionCallArgumentsDelta =
+  components["schemas"]["RealtimeServerEventResponseFunctionCallArgumentsDelta"]
+/** Returned when the model-generated function call arguments are done streaming. */
+export type RealtimeServerEventResponseFunctionCallArgumentsDone =
+  components["schemas"]["RealtimeServerEventResponseFunctionCallArgumentsDone"]
+
+/** Returned when the text value of a "text" content part is updated. */
+export type RealtimeServerEventResponseTextDelta =
+  components["schemas"]["RealtimeServerEventResponseTextDelta"]
+/** Returned when the text value of a "text" content part is done streaming. */
+export type RealtimeServerEventResponseTextDone =
+  components["schemas"]["RealtimeServerEventResponseTextDone"]
+
+/** Returned when the model-generated audio is updated. */
+export type RealtimeServerEventResponseAudioDelta =
+  components["schemas"]["RealtimeServerEventResponseAudioDelta"]
+/** Returned when the model-generated audio is done. */
+export type RealtimeServerEventResponseAudioDone =
+  components["schemas"]["RealtimeServerEventResponseAudioDone"]
+/** Returned when a new content part is added to an assistant message item during response generation. */
+export type RealtimeServerEventResponseContentPartAdded =
+  components["schemas"]["RealtimeServerEventResponseContentPartAdded"]
+/** Returned when a content part is done streaming in an assistant message item. */
+export type RealtimeServerEventResponseContentPartDone =
+  components["schemas"]["RealtimeServerEventResponseContentPartDone"]
+/** Returned when an earlier assistant audio message item is truncated by the client. */
+export type RealtimeServerEventConversationItemTruncated =
+  components["schemas"]["RealtimeServerEventConversationItemTruncated"]
+
 /** Returned when the model-generated transcription of audio output is updated. */
 export type RealtimeServerEventResponseAudioTranscriptDelta =
   components["schemas"]["RealtimeServerEventResponseAudioTranscriptDelta"]
@@ -105,6 +153,10 @@ export type RealTimeSessionModels = RealtimeSessionCreateRequest["model"]
  */
 export type RealtimeResponse = components["schemas"]["RealtimeResponse"]
 
+/** The parameters of a response, used in @see RealtimeClientEventResponseCreate. */
+export type RealtimeResponseCreateParams =
+  components["schemas"]["RealtimeResponseCreateParams"]
+
 export type RealtimeConversationItemContentElement = IterableElement<
   RealtimeConversationItem["content"]
 >
@@ -135,6 +187,15 @@ export type RealtimeConversationItemContentItemReference = Simplify<
     type: "item_reference"
   } & Pick<RealtimeConversationItemContentElement, "id">
 >
+/**
+ * The content of an assistant message when type="audio": the model's audio and its transcript.
+ * NOTE: OpenAI's OpenAPI types don't include this type, but the server uses it for the model's audio (e.g. in response.content_part.added and response.done).
+ */
+export type RealtimeConversationItemContentAudio = Simplify<
+  {
+    type: "audio"
+  } & Pick<RealtimeConversationItemContentElement, "audio" | "transcript">
+>
 /**
  * The content of a conversation item when type="input_text".
  */
@@ -148,6 +209,7 @@ export type RealtimeConversationItemContentText = Simplify<
  * A more specific type for the @see RealtimeConversationItem.content field.
  */
 export type RealtimeConversationItemContent =
+  | RealtimeConversationItemContentAudio
   | RealtimeConversationItemContentInputAudio
   | RealtimeConversationItemContentInputText
   | RealtimeConversationItemContentItemReference
@@ -155,3 +217,6 @@ export type RealtimeConversationItemContent =
 //#endregion RealtimeConversationItemContent Types
 
 //#endregion Server Event Message Data
+
+/** The body of an error response from the OpenAI REST API. */
+export type OpenAIErrorResponse = components["schemas"]["ErrorResponse"]
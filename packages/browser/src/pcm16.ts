@@ -0,0 +1,52 @@
+/**
+ * The sample rate of the `pcm16` audio format used by the Realtime API for input and output audio.
+ * See https://platform.openai.com/docs/api-reference/realtime-sessions/create#realtime-sessions-create-input_audio_format
+ */
+export const PCM16_SAMPLE_RATE = 24000
+
+/**
+ * Converts floating point samples in the range [-1, 1] (e.g. from Web Audio) to 16-bit signed PCM samples.
+ */
+export function float32ToPcm16(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length)
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]))
+    pcm[i] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff
+  }
+  return pcm
+}
+
+/**
+ * Converts 16-bit signed PCM samples to floating point samples in the range [-1, 1] (e.g. for Web Audio).
+ */
+export function pcm16ToFloat32(pcm: Int16Array): Float32Array {
+  const samples = new Float32Array(pcm.length)
+  for (let i = 0; i < pcm.length; i++) {
+    samples[i] = pcm[i] < 0 ? pcm[i] / 0x8000 : pcm[i] / 0x7fff
+  }
+  return samples
+}
+
+/**
+ * Encodes PCM16 samples as the base64 string expected by `input_audio_buffer.append`.
+ */
+export function pcm16ToBase64(pcm: Int16Array): string {
+  const bytes = new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)
+  let binary = ""
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary)
+}
+
+/**
+ * Decodes the base64 audio found in events like `response.audio.delta` to PCM16 samples.
+ */
+export function base64ToPcm16(base64: string): Int16Array {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return new Int16Array(bytes.buffer, 0, Math.floor(bytes.length / 2))
+}
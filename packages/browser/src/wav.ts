@@ -0,0 +1,48 @@
+import { float32ToPcm16 } from "./pcm16"
+
+const WAV_HEADER_SIZE = 44
+const BYTES_PER_SAMPLE = 2
+
+/**
+ * Encodes audio as a 16-bit PCM WAV file.
+ * See http://soundfile.sapp.org/doc/WaveFormat/
+ */
+export function audioBufferToWav(buffer: AudioBuffer): Blob {
+  const channels: Int16Array[] = []
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    channels.push(float32ToPcm16(buffer.getChannelData(channel)))
+  }
+  const blockAlign = buffer.numberOfChannels * BYTES_PER_SAMPLE
+  const dataSize = buffer.length * blockAlign
+
+  const view = new DataView(new ArrayBuffer(WAV_HEADER_SIZE + dataSize))
+  writeString(view, 0, "RIFF")
+  view.setUint32(4, WAV_HEADER_SIZE - 8 + dataSize, true)
+  writeString(view, 8, "WAVE")
+  // fmt chunk:
+  writeString(view, 12, "fmt ")
+  view.setUint32(16, 16, true) // size of the rest of the fmt chunk
+  view.setUint16(20, 1, true) // PCM
+  view.setUint16(22, buffer.numberOfChannels, true)
+  view.setUint32(24, buffer.sampleRate, true)
+  view.setUint32(28, buffer.sampleRate * blockAlign, true) // byte rate
+  view.setUint16(32, blockAlign, true)
+  view.setUint16(34, BYTES_PER_SAMPLE * 8, true) // bits per sample
+  // data chunk with interleaved samples:
+  writeString(view, 36, "data")
+  view.setUint32(40, dataSize, true)
+  let offset = WAV_HEADER_SIZE
+  for (let i = 0; i < buffer.length; i++) {
+    for (const channel of channels) {
+      view.setInt16(offset, channel[i], true)
+      offset += BYTES_PER_SAMPLE
+    }
+  }
+  return new Blob([view], { type: "audio/wav" })
+}
+
+function writeString(view: DataView, offset: number, value: string) {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i))
+  }
+}
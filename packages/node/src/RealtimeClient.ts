@@ -0,0 +1,193 @@
+import WebSocket from "ws"
+import {
+  RealtimeClientBase,
+  type RealtimeClientBaseOptions,
+} from "@tsorta/browser/core"
+import { namespaceLogger } from "@tsorta/browser/log"
+import type {
+  RealtimeClientEvent,
+  RealtimeServerEvent,
+  RealtimeServerEventResponseAudioDelta,
+} from "@tsorta/browser/openai"
+import { OutputAudioEvent, RealtimeNodeClientEventMap } from "./events.js"
+
+interface RealtimeClientOptions extends RealtimeClientBaseOptions {
+  /**
+   * The model to use for the Realtime API.
+   */
+  model: string
+  /**
+   * The base URL for the Realtime API.
+   */
+  baseUrl: string
+}
+
+export interface RealtimeClientStartOptions {
+  /**
+   * Continues a conversation that was saved in the `conversationStore` option with this id (see @see RealtimeClient.conversationId).
+   */
+  restoreFrom?: string
+}
+
+const RealtimeClientDefaultOptions: RealtimeClientOptions = {
+  model: "gpt-4o-realtime-preview-2024-12-17",
+  baseUrl: "wss://api.openai.com/v1/realtime",
+}
+
+/**
+ * A TypeScript client for the OpenAI Realtime API using a WebSocket in Node.js.
+ * Audio is sent and received as raw PCM16 (24kHz, mono, little-endian) buffers. It tracks the conversation the same way as the browser client.
+ */
+export class RealtimeClient extends RealtimeClientBase<RealtimeNodeClientEventMap> {
+  private readonly log = namespaceLogger(this.logger, "realtime:node")
+  private socket: WebSocket | undefined = undefined
+  private readonly model: string
+  private readonly baseUrl: string
+
+  /**
+   * Create a new client.
+   * @param getRealtimeAPIKey This is a function that you should implement to return the OpenAI API key that is used to authenticate with the OpenAI Realtime API. On a server this can be a standard API key.
+   */
+  constructor(
+    private readonly getRealtimeAPIKey: () => Promise<string> | string,
+    options: Partial<RealtimeClientOptions> = RealtimeClientDefaultOptions,
+  ) {
+    super(options)
+    const opt = { ...RealtimeClientDefaultOptions, ...options }
+    this.model = opt.model
+    this.baseUrl = opt.baseUrl
+  }
+
+  /**
+   * Starts a session: connects to the Realtime API.
+   * @throws {Error} When the conversation to restore could not be loaded.
+   */
+  async start({ restoreFrom }: RealtimeClientStartOptions = {}): Promise<void> {
+    // clear conversation for a new session...
+    this.resetConversation()
+
+    this.setState("negotiating")
+    try {
+      await this.initializeConversation(restoreFrom)
+      await this.initializeSocket()
+      if (restoreFrom) {
+        this.replayConversation()
+      }
+    } catch (err) {
+      this.log.error("Failed to start RealtimeClient", err)
+      // cleanup anything partially initialized
+      this.release()
+      this.setState("failed", err)
+      throw err
+    }
+    this.setState("connected")
+  }
+
+  private async initializeSocket(): Promise<void> {
+    let apiKey: string
+    try {
+      apiKey = await this.getRealtimeAPIKey()
+    } catch (err) {
+      throw new Error("getRealtimeAPIKey handler failed.", {
+        cause: err,
+      })
+    }
+    if (!apiKey) {
+      throw new Error("getRealtimeAPIKey did not return an API key.")
+    }
+
+    const socket = new WebSocket(`${this.baseUrl}?model=${this.model}`, {
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "OpenAI-Beta": "realtime=v1",
+      },
+    })
+    this.socket = socket
+
+    socket.on("message", (data) => {
+      const parsedEvent = JSON.parse(data.toString()) as RealtimeServerEvent
+      this.receiveServerEvent(parsedEvent)
+      if (parsedEvent.type === "response.audio.delta") {
+        const audioEvent = parsedEvent as RealtimeServerEventResponseAudioDelta
+        this.emitter.dispatchTypedEvent(
+          "outputAudio",
+          new OutputAudioEvent(
+            audioEvent.item_id,
+            Buffer.from(audioEvent.delta, "base64"),
+          ),
+        )
+      }
+    })
+
+    socket.on("error", (err) => {
+      this.log.error("WebSocket error: %o", err)
+    })
+
+    // resolve once the socket is open and it's safe to send client events
+    await new Promise<void>((resolve, reject) => {
+      socket.once("open", () => {
+        this.log.debug("WebSocket open")
+        socket.off("error", reject)
+        resolve()
+      })
+      socket.once("error", reject)
+    })
+
+    socket.on("close", (code, reason) => {
+      if (socket !== this.socket) {
+        // closed by stop()
+        return
+      }
+      this.log.debug(`WebSocket closed (code ${code}): ${reason}`)
+      this.release()
+      // 1000 is a normal closure and 1005 is a close frame without a status code
+      if (code === 1000 || code === 1005) {
+        this.setState("closed")
+      } else {
+        this.setState(
+          "failed",
+          new Error(`WebSocket closed unexpectedly (code ${code}): ${reason}`),
+        )
+      }
+    })
+  }
+
+  public async stop(): Promise<void> {
+    this.setState("closing")
+    this.release()
+    this.setState("closed")
+  }
+
+  /**
+   * Releases the connection.
+   */
+  private release() {
+    if (this.socket) {
+      const socket = this.socket
+      this.socket = undefined
+      socket.close()
+    }
+    this.endSession()
+  }
+
+  protected transmitClientEvent(event: RealtimeClientEvent): void {
+    if (!this.socket) {
+      throw new Error("WebSocket not initialized")
+    }
+    this.socket.send(JSON.stringify(event))
+  }
+
+  /**
+   * Appends audio to the input audio buffer with an `input_audio_buffer.append` event.
+   * @param audio Raw PCM16 (24kHz, mono, little-endian) audio. This is the session's default `input_audio_format`.
+   */
+  public appendInputAudio(audio: Buffer | Int16Array): void {
+    const bytes = Buffer.isBuffer(audio)
+      ? audio
+      : Buffer.from(audio.buffer, audio.byteOffset, audio.byteLength)
+    this.sendClientEvent({
+      type: "input_audio_buffer.append",
+      audio: bytes.toString("base64"),
+    })
+  }
+}
@@ -0,0 +1,25 @@
+import type { Simplify } from "type-fest"
+import { BaseEvent, RealtimeClientEventMap } from "@tsorta/browser/core"
+
+export class OutputAudioEvent extends BaseEvent<"outputAudio"> {
+  constructor(
+    /** The ID of the conversation item the audio belongs to. */
+    public readonly itemId: string,
+    /** The PCM16 audio from the model. */
+    public readonly audio: Buffer,
+  ) {
+    super("outputAudio")
+  }
+}
+
+/**
+ * Used to map the each event name of the Node.js @see RealtimeClient to its corresponding Event type.
+ */
+export type RealtimeNodeClientEventMap = Simplify<
+  RealtimeClientEventMap & {
+    /**
+     * Emitted when audio from the model is received.
+     */
+    outputAudio: OutputAudioEvent
+  }
+>
@@ -0,0 +1,3 @@
+export { RealtimeClient } from "./RealtimeClient.js"
+export type { RealtimeClientStartOptions } from "./RealtimeClient.js"
+export * from "./events.js"